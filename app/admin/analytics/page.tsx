@@ -0,0 +1,131 @@
+import Link from 'next/link';
+import { tenants } from '@/config/tenants';
+import { buildChatReport, loadChatEvents, parseReportFilters, type QuestionStat } from '@/lib/analytics/report';
+
+export const dynamic = 'force-dynamic';
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const formatDate = (value: string) => new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+const formatRate = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+const formatMs = (value: number | null) => (value === null ? '—' : `${(value / 1000).toFixed(1)} s`);
+const formatSimilarity = (value: number | null) => (value === null ? 'no match' : value.toFixed(2));
+
+function QuestionTable({ questions, empty, showSimilarity }: { questions: QuestionStat[]; empty: string; showSimilarity?: boolean }) {
+  return (
+    <table className="admin-table">
+      <thead>
+        <tr>
+          <th>Question</th>
+          <th>Asked</th>
+          {showSimilarity && <th>Best match</th>}
+          <th>Last asked</th>
+        </tr>
+      </thead>
+      <tbody>
+        {questions.length === 0 && (
+          <tr><td colSpan={showSimilarity ? 4 : 3} className="admin-muted">{empty}</td></tr>
+        )}
+        {questions.map(q => (
+          <tr key={q.question}>
+            <td>{q.question}</td>
+            <td>{q.count}</td>
+            {showSimilarity && <td>{formatSimilarity(q.bestSimilarity)}</td>}
+            <td>{formatDate(q.lastAskedAt)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default async function AnalyticsPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const filters = parseReportFilters(await searchParams);
+  const { events, truncated } = await loadChatEvents(filters);
+  const { totals, daily, topQuestions, contentGaps, gapSimilarity } = buildChatReport(events);
+
+  const summary: [string, string][] = [
+    ['Conversations', String(totals.conversations)],
+    ['Turns', String(totals.turns)],
+    ['Leads', String(totals.leads)],
+    ['Chat-to-lead conversion', formatRate(totals.leadConversion)],
+    ['Refusal rate', formatRate(totals.refusalRate)],
+    ['Canned answers', formatRate(totals.cannedRate)],
+    ['Answered from cache', formatRate(totals.cacheRate)],
+    ['Errors', formatRate(totals.errorRate)],
+    ['Average reply time', formatMs(totals.averageLatencyMs)],
+    ['95th percentile reply time', formatMs(totals.p95LatencyMs)],
+    ['Average time to first word', formatMs(totals.averageFirstTokenMs)],
+    ['Tokens (in / out)', `${totals.inputTokens.toLocaleString('en-GB')} / ${totals.outputTokens.toLocaleString('en-GB')}`],
+  ];
+
+  return (
+    <div>
+      <div className="admin-toolbar">
+        <h1>Analytics</h1>
+      </div>
+
+      <form className="admin-filters" method="get">
+        {tenants.length > 1 && (
+          <select name="tenant" defaultValue={filters.tenantId ?? ''}>
+            <option value="">All sites</option>
+            {tenants.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        )}
+        <label>From <input type="date" name="from" defaultValue={filters.from} /></label>
+        <label>To <input type="date" name="to" defaultValue={filters.to} /></label>
+        <button type="submit" className="admin-button">Show</button>
+        <Link href="/admin/analytics">Last 30 days</Link>
+      </form>
+
+      {truncated && <p className="admin-error">Only the first {events.length} turns are included; choose a shorter range.</p>}
+
+      <dl className="admin-details">
+        {summary.map(([label, value]) => (
+          <div key={label}>
+            <dt>{label}</dt>
+            <dd>{value}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <h2>Chat-to-lead funnel</h2>
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Day</th>
+            <th>Conversations</th>
+            <th>Got an answer</th>
+            <th>Left contact details</th>
+            <th>Conversion</th>
+            <th>Refusals</th>
+          </tr>
+        </thead>
+        <tbody>
+          {daily.length === 0 && (
+            <tr><td colSpan={6} className="admin-muted">No chats in this range.</td></tr>
+          )}
+          {daily.map(d => (
+            <tr key={d.date}>
+              <td>{d.date}</td>
+              <td>{d.conversations}</td>
+              <td>{d.answered}</td>
+              <td>{d.leads}</td>
+              <td>{formatRate(d.conversations > 0 ? d.leads / d.conversations : null)}</td>
+              <td>{d.refusals} of {d.turns} turns</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h2>Top questions</h2>
+      <QuestionTable questions={topQuestions} empty="No questions in this range." />
+
+      <h2>Content gaps</h2>
+      <p className="admin-muted">
+        Questions answered or refused without any indexed content closer than {gapSimilarity} similarity. Consider adding pages that cover them.
+      </p>
+      <QuestionTable questions={contentGaps} empty="No gaps found." showSimilarity />
+    </div>
+  );
+}
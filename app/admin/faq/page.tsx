@@ -0,0 +1,60 @@
+import Link from 'next/link';
+import { listFaqOverrides } from '@/lib/feedback/overrides';
+import { deleteFaqOverrideAction } from '../feedback/actions';
+
+export const dynamic = 'force-dynamic';
+
+const formatDate = (value: string) => new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+export default async function FaqOverridesPage() {
+  const overrides = await listFaqOverrides();
+
+  return (
+    <div>
+      <p><Link href="/admin/feedback">← Answer feedback</Link></p>
+      <div className="admin-toolbar">
+        <h1>FAQ overrides</h1>
+      </div>
+      <p className="admin-muted">
+        Corrected answers from the feedback review. A visitor question close enough to one is answered with it instead of searching the site.
+      </p>
+
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Added</th>
+            <th>Site</th>
+            <th>Question</th>
+            <th>Answer</th>
+            <th>Source</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {overrides.map(override => (
+            <tr key={override.id}>
+              <td>
+                {override.feedback_id
+                  ? <Link href={`/admin/feedback/${override.feedback_id}`}>{formatDate(override.created_at)}</Link>
+                  : formatDate(override.created_at)}
+              </td>
+              <td>{override.tenant_id}</td>
+              <td>{override.question}</td>
+              <td>{override.answer}</td>
+              <td>{override.source_url && <a href={override.source_url} target="_blank" rel="noopener noreferrer">{override.source_url}</a>}</td>
+              <td>
+                <form action={deleteFaqOverrideAction}>
+                  <input type="hidden" name="id" value={override.id} />
+                  <button type="submit" className="admin-button secondary">Delete</button>
+                </form>
+              </td>
+            </tr>
+          ))}
+          {overrides.length === 0 && (
+            <tr><td colSpan={6} className="admin-muted">No overrides yet. Write one when reviewing feedback.</td></tr>
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getFeedback } from '@/lib/feedback/queries';
+import { dismissFeedbackAction, resolveFeedbackAction } from '../actions';
+
+export const dynamic = 'force-dynamic';
+
+const formatDate = (value: string) => new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+export default async function FeedbackReviewPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const feedback = await getFeedback(id);
+  if (!feedback) notFound();
+
+  const fields: [string, string | null][] = [
+    ['Received', formatDate(feedback.created_at)],
+    ['Site', feedback.tenant_id],
+    ['Rating', feedback.rating === 'up' ? '👍 Helpful' : '👎 Not helpful'],
+    ['Comment', feedback.comment],
+    ['Prompt version', feedback.prompt_version],
+    ['Correct source', feedback.correct_source_url],
+    ['Reviewed', feedback.reviewed_at && formatDate(feedback.reviewed_at)],
+  ];
+  const sourceUrls = [...new Set(feedback.retrieved.map(ref => ref.url))];
+
+  return (
+    <div>
+      <p><Link href="/admin/feedback">← All feedback</Link></p>
+      <div className="admin-toolbar">
+        <h1>Feedback</h1>
+        <span className={`status-badge ${feedback.status}`}>{feedback.status}</span>
+      </div>
+
+      <dl className="admin-details">
+        {fields.map(([label, value]) => (
+          <div key={label}>
+            <dt>{label}</dt>
+            <dd>{value || '—'}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="admin-transcript">
+        <div className="transcript-message user">
+          <div className="transcript-role">question</div>
+          <div>{feedback.question ?? '—'}</div>
+        </div>
+        <div className="transcript-message assistant">
+          <div className="transcript-role">answer</div>
+          <div>{feedback.answer}</div>
+        </div>
+      </div>
+
+      <h2>Retrieved for this answer</h2>
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Page</th>
+            <th>Chunk</th>
+            <th>Similarity</th>
+          </tr>
+        </thead>
+        <tbody>
+          {feedback.retrieved.length === 0 && (
+            <tr><td colSpan={3} className="admin-muted">Nothing was retrieved.</td></tr>
+          )}
+          {feedback.retrieved.map(ref => (
+            <tr key={`${ref.url}#${ref.chunkIndex}`}>
+              <td><a href={ref.url} target="_blank" rel="noopener noreferrer">{ref.title ?? ref.url}</a></td>
+              <td>{ref.chunkIndex}</td>
+              <td>{ref.similarity.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h2>Review</h2>
+      <p className="admin-muted">
+        A corrected answer is saved as an FAQ override: questions close to this one are answered with it before any search.
+      </p>
+      <form action={resolveFeedbackAction} className="feedback-review">
+        <input type="hidden" name="id" value={feedback.id} />
+        <label>
+          Correct source
+          <input type="url" name="sourceUrl" list="retrieved-urls" defaultValue={feedback.correct_source_url ?? ''} placeholder="https://" />
+          <datalist id="retrieved-urls">
+            {sourceUrls.map(url => <option key={url} value={url} />)}
+          </datalist>
+        </label>
+        <label>
+          Question
+          <input type="text" name="question" defaultValue={feedback.question ?? ''} />
+        </label>
+        <label>
+          Corrected answer (optional)
+          <textarea name="answer" rows={6} />
+        </label>
+        <div className="feedback-review-actions">
+          <button type="submit" className="admin-button">Resolve</button>
+          <button type="submit" formAction={dismissFeedbackAction} formNoValidate className="admin-button secondary">Dismiss</button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { redirect } from 'next/navigation';
+import { isAdminBasicAuth } from '@/lib/auth';
+import { getFeedback, reviewFeedback } from '@/lib/feedback/queries';
+import { createFaqOverride, deleteFaqOverride } from '@/lib/feedback/overrides';
+import { isUuid } from '@/lib/supabase';
+
+// Server actions can be posted to from any route, so the admin check is repeated here.
+async function requireAdmin() {
+  if (!isAdminBasicAuth((await headers()).get('authorization'))) throw new Error('Unauthorized');
+}
+
+const field = (formData: FormData, name: string) => String(formData.get(name) ?? '').trim();
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Records the page that should have answered and, when a corrected answer is given, stores it as an FAQ
+// override for the question.
+export async function resolveFeedbackAction(formData: FormData) {
+  await requireAdmin();
+  const id = field(formData, 'id');
+  const question = field(formData, 'question');
+  const answer = field(formData, 'answer');
+  const sourceUrl = field(formData, 'sourceUrl') || null;
+  if (!id || (sourceUrl && !isHttpUrl(sourceUrl)) || (answer && !question)) throw new Error('Invalid feedback review');
+
+  const feedback = await getFeedback(id);
+  if (!feedback) throw new Error('Feedback not found');
+  if (answer) {
+    await createFaqOverride({ tenantId: feedback.tenant_id, question, answer, sourceUrl, feedbackId: feedback.id });
+  }
+  await reviewFeedback(id, 'resolved', sourceUrl);
+
+  revalidatePath('/admin/feedback');
+  revalidatePath('/admin/faq');
+  redirect('/admin/feedback');
+}
+
+export async function dismissFeedbackAction(formData: FormData) {
+  await requireAdmin();
+  const id = field(formData, 'id');
+  if (!isUuid(id)) throw new Error('Invalid feedback review');
+
+  await reviewFeedback(id, 'dismissed');
+  revalidatePath('/admin/feedback');
+  redirect('/admin/feedback');
+}
+
+export async function deleteFaqOverrideAction(formData: FormData) {
+  await requireAdmin();
+  const id = field(formData, 'id');
+  if (!isUuid(id)) throw new Error('Invalid FAQ override');
+
+  await deleteFaqOverride(id);
+  revalidatePath('/admin/faq');
+}
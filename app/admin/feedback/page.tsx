@@ -0,0 +1,87 @@
+import Link from 'next/link';
+import { tenants } from '@/config/tenants';
+import { FEEDBACK_PAGE_SIZE, FEEDBACK_STATUSES, listFeedback, parseFeedbackFilters } from '@/lib/feedback/queries';
+
+export const dynamic = 'force-dynamic';
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const formatDate = (value: string) => new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+export default async function FeedbackPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const params = await searchParams;
+  const filters = parseFeedbackFilters(params);
+  const page = Math.max(0, Number(params.page ?? 0) || 0);
+  const { feedback, total } = await listFeedback(filters, page);
+
+  const query = new URLSearchParams(
+    Object.entries(params).filter((e): e is [string, string] => typeof e[1] === 'string' && e[1] !== '' && e[0] !== 'page'),
+  );
+  const pageLink = (p: number) => `/admin/feedback?${new URLSearchParams([...query, ['page', String(p)]])}`;
+  const lastPage = Math.max(0, Math.ceil(total / FEEDBACK_PAGE_SIZE) - 1);
+
+  return (
+    <div>
+      <div className="admin-toolbar">
+        <h1>Answer feedback</h1>
+        <Link className="admin-button" href="/admin/faq">FAQ overrides</Link>
+      </div>
+
+      <form className="admin-filters" method="get">
+        {tenants.length > 1 && (
+          <select name="tenant" defaultValue={filters.tenantId ?? ''}>
+            <option value="">All sites</option>
+            {tenants.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        )}
+        <select name="rating" defaultValue={filters.rating ?? ''}>
+          <option value="">Any rating</option>
+          <option value="down">👎 Not helpful</option>
+          <option value="up">👍 Helpful</option>
+        </select>
+        <select name="status" defaultValue={filters.status ?? 'all'}>
+          <option value="all">Any status</option>
+          {FEEDBACK_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <button type="submit" className="admin-button">Filter</button>
+        <Link href="/admin/feedback">Reset</Link>
+      </form>
+
+      <p className="admin-muted">{total} rating{total === 1 ? '' : 's'}</p>
+
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Received</th>
+            <th>Rating</th>
+            <th>Question</th>
+            <th>Comment</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {feedback.map(item => (
+            <tr key={item.id}>
+              <td><Link href={`/admin/feedback/${item.id}`}>{formatDate(item.created_at)}</Link></td>
+              <td>{item.rating === 'up' ? '👍' : '👎'}</td>
+              <td>{item.question}</td>
+              <td>{item.comment}</td>
+              <td><span className={`status-badge ${item.status}`}>{item.status}</span></td>
+            </tr>
+          ))}
+          {feedback.length === 0 && (
+            <tr><td colSpan={5} className="admin-muted">No feedback matches these filters.</td></tr>
+          )}
+        </tbody>
+      </table>
+
+      {lastPage > 0 && (
+        <div className="admin-pagination">
+          {page > 0 && <Link href={pageLink(page - 1)}>← Newer</Link>}
+          <span>Page {page + 1} of {lastPage + 1}</span>
+          {page < lastPage && <Link href={pageLink(page + 1)}>Older →</Link>}
+        </div>
+      )}
+    </div>
+  );
+}
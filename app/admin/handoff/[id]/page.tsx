@@ -0,0 +1,28 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { getTenant } from '@/lib/tenants';
+import { getConversationMessages } from '@/lib/conversations';
+import { getHandoffConversation } from '@/lib/handoff/service';
+import { OperatorChat } from '../live';
+
+export const dynamic = 'force-dynamic';
+
+export default async function HandoffConversationPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const conversation = await getHandoffConversation(id);
+  if (!conversation) notFound();
+  const messages = await getConversationMessages(id);
+
+  return (
+    <div>
+      <p><Link href="/admin/handoff">← Live chat queue</Link></p>
+      <h1>{getTenant(conversation.tenant_id)?.name ?? conversation.tenant_id} visitor</h1>
+      {conversation.handoff_reason && <p>{conversation.handoff_reason}</p>}
+      <OperatorChat
+        conversationId={conversation.id}
+        initialState={{ mode: conversation.mode, agentName: conversation.agent_name }}
+        initialMessages={messages}
+      />
+    </div>
+  );
+}
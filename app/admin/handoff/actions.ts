@@ -0,0 +1,49 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { isAdminBasicAuth } from '@/lib/auth';
+import { MAX_MESSAGE_CHARS } from '@/lib/limits';
+import { claimConversation, getHandoffConversation, postAgentMessage, releaseConversation } from '@/lib/handoff/service';
+
+// Server actions can be posted to from any route, so the admin check is repeated here.
+async function requireAdmin() {
+  if (!isAdminBasicAuth((await headers()).get('authorization'))) throw new Error('Unauthorized');
+}
+
+const field = (formData: FormData, name: string) => String(formData.get(name) ?? '').trim();
+
+export async function claimConversationAction(formData: FormData) {
+  await requireAdmin();
+  const id = field(formData, 'id');
+  const agentName = field(formData, 'agentName').slice(0, 60);
+  if (!id || !agentName) throw new Error('Invalid handoff claim');
+
+  const result = await claimConversation(id, agentName);
+  if (!result) throw new Error('Conversation not found');
+  revalidatePath('/admin/handoff');
+  revalidatePath(`/admin/handoff/${id}`);
+  return result;
+}
+
+export async function releaseConversationAction(formData: FormData) {
+  await requireAdmin();
+  const id = field(formData, 'id');
+  if (!id) throw new Error('Invalid handoff release');
+
+  if (!(await releaseConversation(id))) throw new Error('Conversation not found');
+  revalidatePath('/admin/handoff');
+  revalidatePath(`/admin/handoff/${id}`);
+}
+
+// Replies go out under the name the conversation was claimed with.
+export async function sendAgentReplyAction(formData: FormData) {
+  await requireAdmin();
+  const id = field(formData, 'id');
+  const text = field(formData, 'text');
+  if (!id || !text || text.length > MAX_MESSAGE_CHARS) throw new Error('Invalid reply');
+
+  const conversation = await getHandoffConversation(id);
+  if (conversation?.mode !== 'human' || !conversation.agent_name) throw new Error('Claim the conversation before replying');
+  await postAgentMessage(id, conversation.agent_name, text);
+}
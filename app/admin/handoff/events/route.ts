@@ -0,0 +1,40 @@
+import type { UIMessage } from 'ai';
+import type { NextRequest } from 'next/server';
+import { getConversationMessages } from '@/lib/conversations';
+import { conversationChannel, defaultHandoffBus, QUEUE_CHANNEL, type HandoffState } from '@/lib/handoff/events';
+import { getHandoffState } from '@/lib/handoff/service';
+import { eventStreamResponse } from '@/lib/handoff/sse';
+import { isUuid } from '@/lib/supabase';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+// -------- Operator events --------
+// GET /admin/handoff/events streams queue changes; ?conversation=<id> streams that conversation's state and
+// messages from both sides, starting with the stored ones on every (re)connection. Behind basic auth with the
+// rest of /admin.
+export async function GET(req: NextRequest) {
+  const conversationId = req.nextUrl.searchParams.get('conversation');
+  if (!conversationId) {
+    return eventStreamResponse(req.signal, send => defaultHandoffBus.subscribe(QUEUE_CHANNEL, send));
+  }
+
+  if (!isUuid(conversationId)) {
+    return new Response(JSON.stringify({ error: 'Conversation not found' }), { status: 404 });
+  }
+
+  let state: HandoffState;
+  let messages: UIMessage[];
+  try {
+    [state, messages] = await Promise.all([getHandoffState(conversationId), getConversationMessages(conversationId)]);
+  } catch (e) {
+    console.error('Handoff events error:', e);
+    return new Response(JSON.stringify({ error: 'Conversation not found' }), { status: 404 });
+  }
+
+  return eventStreamResponse(req.signal, send => {
+    send({ type: 'state', ...state });
+    for (const message of messages) send({ type: 'message', message });
+    return defaultHandoffBus.subscribe(conversationChannel(conversationId), send);
+  });
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { TextUIPart, UIMessage } from 'ai';
+import type { HandoffEvent, HandoffState } from '@/lib/handoff/events';
+import { MAX_MESSAGE_CHARS } from '@/lib/limits';
+import { claimConversationAction, releaseConversationAction, sendAgentReplyAction } from './actions';
+
+// The name operators reply under, remembered per browser.
+const AGENT_NAME_KEY = 'handoff-agent-name';
+
+const messageText = (message: UIMessage) =>
+  message.parts
+    .filter((part): part is TextUIPart => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+
+const agentOf = (message: UIMessage) => (message.metadata as { agent?: string } | undefined)?.agent;
+
+// -------- Queue --------
+// Re-renders the queue page whenever a conversation is queued, claimed, released or gets a visitor message.
+export function QueueUpdates() {
+  const router = useRouter();
+
+  useEffect(() => {
+    const source = new EventSource('/admin/handoff/events');
+    source.onmessage = () => router.refresh();
+    return () => source.close();
+  }, [router]);
+
+  return null;
+}
+
+// -------- Conversation --------
+// Live transcript of one conversation, with the controls to take it over, reply and hand it back to the bot.
+export function OperatorChat({
+  conversationId,
+  initialState,
+  initialMessages,
+}: {
+  conversationId: string;
+  initialState: HandoffState;
+  initialMessages: UIMessage[];
+}) {
+  const [state, setState] = useState(initialState);
+  const [messages, setMessages] = useState(initialMessages);
+  const [agentName, setAgentName] = useState('');
+  const [reply, setReply] = useState('');
+  const [error, setError] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => setAgentName(localStorage.getItem(AGENT_NAME_KEY) ?? ''), []);
+
+  // Every (re)connection replays the stored messages; they are added by id.
+  useEffect(() => {
+    const source = new EventSource(`/admin/handoff/events?${new URLSearchParams({ conversation: conversationId })}`);
+    source.onmessage = e => {
+      const event = JSON.parse(e.data) as HandoffEvent;
+      if (event.type === 'state') setState({ mode: event.mode, agentName: event.agentName });
+      if (event.type === 'message') {
+        setMessages(prev => (prev.some(m => m.id === event.message.id) ? prev : [...prev, event.message]));
+      }
+    };
+    return () => source.close();
+  }, [conversationId]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const run = async (action: (formData: FormData) => Promise<unknown>, formData: FormData) => {
+    setError('');
+    try {
+      await action(formData);
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+      return false;
+    }
+  };
+
+  // Another operator may have taken the conversation first; the console then shows who has it.
+  const claim = async (formData: FormData) => {
+    localStorage.setItem(AGENT_NAME_KEY, String(formData.get('agentName') ?? ''));
+    await run(async data => {
+      const result = await claimConversationAction(data);
+      setState(result.state);
+      if (!result.claimed) setError(`${result.state.agentName ?? 'Another team member'} is already handling this conversation.`);
+    }, formData);
+  };
+
+  const release = async (formData: FormData) => {
+    await run(releaseConversationAction, formData);
+  };
+
+  const send = async (formData: FormData) => {
+    if (await run(sendAgentReplyAction, formData)) setReply('');
+  };
+
+  return (
+    <div>
+      <div className="admin-toolbar">
+        <p className="admin-muted">
+          {state.mode === 'waiting' && 'Waiting for a team member. The bot is not answering.'}
+          {state.mode === 'human' && `${state.agentName} is handling this conversation.`}
+          {state.mode === 'bot' && 'The bot is answering this conversation.'}
+        </p>
+        {state.mode !== 'bot' && (
+          <form action={release}>
+            <input type="hidden" name="id" value={conversationId} />
+            <button type="submit" className="admin-button secondary">Hand back to the bot</button>
+          </form>
+        )}
+      </div>
+
+      <div className="admin-transcript handoff-transcript">
+        {messages.filter(message => messageText(message).trim()).map(message => (
+          <div key={message.id} className={`transcript-message ${message.role}${agentOf(message) ? ' agent' : ''}`}>
+            <div className="transcript-role">
+              {message.role === 'user' ? 'Visitor' : agentOf(message) ?? 'Bot'}
+            </div>
+            <div>{messageText(message)}</div>
+          </div>
+        ))}
+        <div ref={endRef} />
+      </div>
+
+      {error && <p className="admin-error" role="alert">{error}</p>}
+
+      {state.mode === 'human' ? (
+        <form action={send} className="handoff-reply">
+          <input type="hidden" name="id" value={conversationId} />
+          <textarea
+            name="text"
+            value={reply}
+            onChange={e => setReply(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                e.currentTarget.form?.requestSubmit();
+              }
+            }}
+            placeholder={`Reply as ${state.agentName}…`}
+            maxLength={MAX_MESSAGE_CHARS}
+            rows={2}
+          />
+          <button type="submit" className="admin-button" disabled={!reply.trim()}>Send</button>
+        </form>
+      ) : (
+        <form action={claim} className="handoff-reply">
+          <input type="hidden" name="id" value={conversationId} />
+          <input
+            name="agentName"
+            value={agentName}
+            onChange={e => setAgentName(e.target.value)}
+            placeholder="Your name, as the visitor will see it"
+            maxLength={60}
+            required
+          />
+          <button type="submit" className="admin-button">Take over</button>
+        </form>
+      )}
+    </div>
+  );
+}
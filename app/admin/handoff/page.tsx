@@ -0,0 +1,58 @@
+import Link from 'next/link';
+import { getTenant } from '@/lib/tenants';
+import { listHandoffQueue } from '@/lib/handoff/service';
+import { QueueUpdates } from './live';
+
+export const dynamic = 'force-dynamic';
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' }) : '—';
+
+export default async function HandoffQueuePage() {
+  const queue = await listHandoffQueue();
+  const waiting = queue.filter(c => c.mode === 'waiting').length;
+
+  return (
+    <div>
+      <QueueUpdates />
+      <div className="admin-toolbar">
+        <h1>Live chat</h1>
+      </div>
+      <p className="admin-muted">
+        {waiting} waiting, {queue.length - waiting} with a team member. This page updates as visitors ask for a person.
+      </p>
+
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Requested</th>
+            <th>Site</th>
+            <th>Status</th>
+            <th>Reason</th>
+            <th>Last message</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {queue.length === 0 && (
+            <tr><td colSpan={6} className="admin-muted">No one is waiting.</td></tr>
+          )}
+          {queue.map(conversation => (
+            <tr key={conversation.id}>
+              <td>{formatDate(conversation.handoff_requested_at)}</td>
+              <td>{getTenant(conversation.tenant_id)?.name ?? conversation.tenant_id}</td>
+              <td>
+                <span className={`status-badge ${conversation.mode}`}>
+                  {conversation.mode === 'human' ? `with ${conversation.agent_name}` : 'waiting'}
+                </span>
+              </td>
+              <td>{conversation.handoff_reason ?? '—'}</td>
+              <td>{formatDate(conversation.last_message_at)}</td>
+              <td><Link href={`/admin/handoff/${conversation.id}`}>Open</Link></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { tenants } from '@/config/tenants';
+import { embeddingStatus } from '@/lib/retrieval/store';
+import './admin.css';
+
+export const metadata: Metadata = {
+  title: 'Chatbot Admin',
+  robots: { index: false, follow: false },
+};
+
+// Sites with pages embedded by another model. Vector search skips those pages until the site is re-indexed.
+async function EmbeddingNotice() {
+  const stale = (await Promise.all(tenants.map(async tenant => {
+    const status = await embeddingStatus(tenant.id).catch(err => {
+      console.error('Embedding model check failed:', err);
+      return null;
+    });
+    return status?.needsReembedding ? [{ tenant, ...status }] : [];
+  }))).flat();
+  if (stale.length === 0) return null;
+
+  return (
+    <div className="admin-notice">
+      {stale.map(({ tenant, current, stored }) => (
+        <p key={tenant.id}>
+          {tenant.name} has pages embedded with {stored.filter(model => model !== current).map(model => model ?? 'an unknown model').join(', ')}{' '}
+          but the current model is {current}. Re-index the site to re-embed them; until then search only finds them by exact terms.
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// Everything under /admin is behind basic auth (see middleware.ts).
+export default function AdminLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return (
+    <div className="admin">
+      <header className="admin-header">
+        <div className="admin-title">Chatbot Admin</div>
+        <nav className="admin-nav">
+          <Link href="/admin/leads">Leads</Link>
+          <Link href="/admin/handoff">Live chat</Link>
+          <Link href="/admin/feedback">Feedback</Link>
+          <Link href="/admin/analytics">Analytics</Link>
+        </nav>
+      </header>
+      <main className="admin-main">
+        <EmbeddingNotice />
+        {children}
+      </main>
+    </div>
+  );
+}
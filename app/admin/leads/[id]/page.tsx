@@ -0,0 +1,77 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import type { TextUIPart } from 'ai';
+import { getLeadWithConversation, LEAD_STATUSES } from '@/lib/leads/queries';
+import { updateLeadStatusAction } from '../actions';
+
+export const dynamic = 'force-dynamic';
+
+const formatDate = (value: string) => new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+export default async function LeadPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const result = await getLeadWithConversation(id);
+  if (!result) notFound();
+  const { lead, messages } = result;
+
+  const fields: [string, unknown][] = [
+    ['Received', formatDate(lead.created_at)],
+    ['Site', lead.tenant_id],
+    ['Name', lead.name],
+    ['Email', lead.email],
+    ['Phone', lead.phone],
+    ['Company', lead.company],
+    ['Inquiry type', lead.inquiry_type],
+    ['Message', lead.message],
+    ['Contact method', lead.contact_method],
+    ['Best time', lead.best_time],
+    ['Agreed to be contacted', lead.agree ? 'Yes' : 'No'],
+    ['Newsletter', lead.newsletter ? 'Yes' : 'No'],
+    ...Object.entries(lead.details ?? {}),
+  ];
+
+  return (
+    <div>
+      <p><Link href="/admin/leads">← All leads</Link></p>
+      <div className="admin-toolbar">
+        <h1>{lead.name || lead.email || 'Lead'}</h1>
+        <form action={updateLeadStatusAction} className="admin-status-form">
+          <input type="hidden" name="id" value={lead.id} />
+          <select name="status" defaultValue={lead.status}>
+            {LEAD_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+          <button type="submit" className="admin-button">Update status</button>
+        </form>
+      </div>
+      {lead.status_updated_at && <p className="admin-muted">Status updated {formatDate(lead.status_updated_at)}</p>}
+
+      <dl className="admin-details">
+        {fields.map(([label, value]) => (
+          <div key={label}>
+            <dt>{label}</dt>
+            <dd>{value === null || value === undefined || value === '' ? '—' : String(value)}</dd>
+          </div>
+        ))}
+      </dl>
+
+      <h2>Conversation</h2>
+      {messages.length === 0 ? (
+        <p className="admin-muted">No stored conversation for this lead.</p>
+      ) : (
+        <div className="admin-transcript">
+          {messages.map(message => (
+            <div key={message.id} className={`transcript-message ${message.role}`}>
+              <div className="transcript-role">{message.role}</div>
+              <div>
+                {message.parts
+                  .filter((part): part is TextUIPart => part.type === 'text')
+                  .map(part => part.text)
+                  .join('\n')}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+'use server';
+
+import { headers } from 'next/headers';
+import { revalidatePath } from 'next/cache';
+import { isAdminBasicAuth } from '@/lib/auth';
+import { LEAD_STATUSES, LeadStatus, updateLeadStatus } from '@/lib/leads/queries';
+
+// Server actions can be posted to from any route, so the admin check is repeated here.
+export async function updateLeadStatusAction(formData: FormData) {
+  if (!isAdminBasicAuth((await headers()).get('authorization'))) throw new Error('Unauthorized');
+
+  const id = String(formData.get('id') ?? '');
+  const status = String(formData.get('status') ?? '') as LeadStatus;
+  if (!id || !LEAD_STATUSES.includes(status)) throw new Error('Invalid lead status update');
+
+  if (!(await updateLeadStatus(id, status))) throw new Error('Lead not found');
+  revalidatePath('/admin/leads');
+  revalidatePath(`/admin/leads/${id}`);
+}
@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { toCsv } from '@/lib/csv';
+import { exportLeads, Lead, parseLeadFilters } from '@/lib/leads/queries';
+
+const COLUMNS: { header: string; value: (lead: Lead) => unknown }[] = [
+  { header: 'Created', value: lead => lead.created_at },
+  { header: 'Tenant', value: lead => lead.tenant_id },
+  { header: 'Status', value: lead => lead.status },
+  { header: 'Name', value: lead => lead.name },
+  { header: 'Email', value: lead => lead.email },
+  { header: 'Phone', value: lead => lead.phone },
+  { header: 'Company', value: lead => lead.company },
+  { header: 'Inquiry Type', value: lead => lead.inquiry_type },
+  { header: 'Message', value: lead => lead.message },
+  { header: 'Contact Method', value: lead => lead.contact_method },
+  { header: 'Best Time', value: lead => lead.best_time },
+  { header: 'Agreed to Contact', value: lead => lead.agree },
+  { header: 'Newsletter', value: lead => lead.newsletter },
+  { header: 'Other Details', value: lead => lead.details },
+];
+
+// -------- CSV export (same filters as the leads list) --------
+export async function GET(req: NextRequest) {
+  const filters = parseLeadFilters(Object.fromEntries(req.nextUrl.searchParams));
+  const leads = await exportLeads(filters);
+
+  return new Response(toCsv(leads, COLUMNS), {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="leads-${new Date().toISOString().slice(0, 10)}.csv"`,
+    },
+  });
+}
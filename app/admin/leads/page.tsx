@@ -0,0 +1,114 @@
+import Link from 'next/link';
+import { tenants } from '@/config/tenants';
+import { LEAD_STATUSES, LEADS_PAGE_SIZE, listLeads, parseLeadFilters } from '@/lib/leads/queries';
+
+export const dynamic = 'force-dynamic';
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+// Select options come from the lead form fields of every configured tenant.
+function fieldOptions(name: string) {
+  const options = new Map<string, string>();
+  for (const tenant of tenants) {
+    for (const field of tenant.leadForm.fields) {
+      if (field.name === name) field.options?.forEach(o => options.set(o.value, o.label));
+    }
+  }
+  return [...options];
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+export default async function LeadsPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const params = await searchParams;
+  const filters = parseLeadFilters(params);
+  const page = Math.max(0, Number(params.page ?? 0) || 0);
+  const { leads, total } = await listLeads(filters, page);
+
+  const query = new URLSearchParams(
+    Object.entries(params).filter((e): e is [string, string] => typeof e[1] === 'string' && e[1] !== '' && e[0] !== 'page'),
+  );
+  const pageLink = (p: number) => `/admin/leads?${new URLSearchParams([...query, ['page', String(p)]])}`;
+  const lastPage = Math.max(0, Math.ceil(total / LEADS_PAGE_SIZE) - 1);
+
+  return (
+    <div>
+      <div className="admin-toolbar">
+        <h1>Leads</h1>
+        <a className="admin-button" href={`/admin/leads/export?${query}`}>Export CSV</a>
+      </div>
+
+      <form className="admin-filters" method="get">
+        {tenants.length > 1 && (
+          <select name="tenant" defaultValue={filters.tenantId ?? ''}>
+            <option value="">All sites</option>
+            {tenants.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+          </select>
+        )}
+        <select name="inquiryType" defaultValue={filters.inquiryType ?? ''}>
+          <option value="">Any inquiry type</option>
+          {fieldOptions('inquiryType').map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <select name="contactMethod" defaultValue={filters.contactMethod ?? ''}>
+          <option value="">Any contact method</option>
+          {fieldOptions('contactMethod').map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+        <select name="newsletter" defaultValue={filters.newsletter === undefined ? '' : filters.newsletter ? 'yes' : 'no'}>
+          <option value="">Newsletter: any</option>
+          <option value="yes">Opted in</option>
+          <option value="no">Not opted in</option>
+        </select>
+        <select name="status" defaultValue={filters.status ?? ''}>
+          <option value="">Any status</option>
+          {LEAD_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <label>From <input type="date" name="from" defaultValue={filters.from ?? ''} /></label>
+        <label>To <input type="date" name="to" defaultValue={filters.to ?? ''} /></label>
+        <button type="submit" className="admin-button">Filter</button>
+        <Link href="/admin/leads">Reset</Link>
+      </form>
+
+      <p className="admin-muted">{total} lead{total === 1 ? '' : 's'}</p>
+
+      <table className="admin-table">
+        <thead>
+          <tr>
+            <th>Received</th>
+            <th>Name</th>
+            <th>Email</th>
+            <th>Phone</th>
+            <th>Inquiry</th>
+            <th>Contact via</th>
+            <th>Newsletter</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {leads.map(lead => (
+            <tr key={lead.id}>
+              <td><Link href={`/admin/leads/${lead.id}`}>{formatDate(lead.created_at)}</Link></td>
+              <td>{lead.name}</td>
+              <td>{lead.email}</td>
+              <td>{lead.phone}</td>
+              <td>{lead.inquiry_type}</td>
+              <td>{lead.contact_method}</td>
+              <td>{lead.newsletter ? 'Yes' : 'No'}</td>
+              <td><span className={`status-badge ${lead.status}`}>{lead.status}</span></td>
+            </tr>
+          ))}
+          {leads.length === 0 && (
+            <tr><td colSpan={8} className="admin-muted">No leads match these filters.</td></tr>
+          )}
+        </tbody>
+      </table>
+
+      {lastPage > 0 && (
+        <div className="admin-pagination">
+          {page > 0 && <Link href={pageLink(page - 1)}>← Newer</Link>}
+          <span>Page {page + 1} of {lastPage + 1}</span>
+          {page < lastPage && <Link href={pageLink(page + 1)}>Older →</Link>}
+        </div>
+      )}
+    </div>
+  );
+}
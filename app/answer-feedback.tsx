@@ -0,0 +1,55 @@
+import { useState } from 'react';
+
+export type Rating = 'up' | 'down';
+
+// -------- Answer feedback --------
+// Thumbs up/down under an answer. A thumbs down asks what was wrong; the comment is optional and sent as a
+// second rating of the same answer, which replaces the first.
+export function AnswerFeedback({ onRate }: { onRate: (rating: Rating, comment?: string) => Promise<boolean> }) {
+  const [rating, setRating] = useState<Rating | null>(null);
+  const [comment, setComment] = useState('');
+  const [commentSent, setCommentSent] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const rate = async (value: Rating) => {
+    if (rating) return;
+    setRating(value);
+    const ok = await onRate(value);
+    setFailed(!ok);
+    if (!ok) setRating(null);
+  };
+
+  const sendComment = async () => {
+    if (!rating || !comment.trim()) return;
+    const ok = await onRate(rating, comment);
+    setFailed(!ok);
+    setCommentSent(ok);
+  };
+
+  return (
+    <div className="answer-feedback">
+      {!rating && (
+        <div className="feedback-buttons">
+          <span className="sources-label">Was this helpful?</span>
+          <button className="feedback-button" onClick={() => rate('up')} aria-label="Helpful">👍</button>
+          <button className="feedback-button" onClick={() => rate('down')} aria-label="Not helpful">👎</button>
+        </div>
+      )}
+      {rating === 'up' && <div className="feedback-thanks">Thanks for your feedback!</div>}
+      {rating === 'down' && !commentSent && (
+        <div className="feedback-comment">
+          <textarea
+            value={comment}
+            placeholder="What was wrong or missing? (optional)"
+            onChange={e => setComment(e.currentTarget.value)}
+            maxLength={1000}
+            rows={2}
+          />
+          <button className="feedback-send" onClick={sendComment} disabled={!comment.trim()}>Send</button>
+        </div>
+      )}
+      {rating === 'down' && commentSent && <div className="feedback-thanks">Thanks, we&apos;ll look into it.</div>}
+      {failed && <div className="feedback-thanks">Your feedback could not be sent.</div>}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server';
+import { isAdminRequest, unauthorized } from '@/lib/auth';
+import { invalidateAnswers } from '@/lib/cache/answers';
+import { cacheStats } from '@/lib/cache/store';
+import { getTenant } from '@/lib/tenants';
+
+// -------- Hit rates --------
+// Counts are per server instance, since the server started.
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return unauthorized();
+
+  return new Response(JSON.stringify({ stats: cacheStats() }), { status: 200 });
+}
+
+// -------- Drop a tenant's cached answers (?tenant=<id>) --------
+export async function DELETE(req: NextRequest) {
+  if (!isAdminRequest(req)) return unauthorized();
+
+  const tenant = getTenant(req.nextUrl.searchParams.get('tenant') ?? '');
+  if (!tenant) return new Response(JSON.stringify({ error: 'Unknown tenant' }), { status: 400 });
+
+  await invalidateAnswers(tenant.id);
+  return new Response(JSON.stringify({ cleared: tenant.id }), { status: 200 });
+}
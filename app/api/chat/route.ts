@@ -1,311 +1,326 @@
-  import { google } from '@ai-sdk/google';
-  import { streamText, convertToModelMessages, stepCountIs, embed, tool } from 'ai';
+  import { streamText, convertToModelMessages, stepCountIs, tool, createUIMessageStream, createUIMessageStreamResponse, TextUIPart, UIMessage } from 'ai';
   import { z } from 'zod';
-  import { NextRequest } from 'next/server';
-  import { createClient } from '@supabase/supabase-js';
-  import puppeteer, { Browser } from 'puppeteer'; 
-
-  type ChatPart = { type: 'text'; text: string };
-  
-  type ChatMessage = { role: 'user' | 'assistant' | 'system'; parts: ChatPart[] };
-
-  // -------- Supabase --------
-  const { SUPABASE_URL, SUPABASE_KEY, GOOGLE_GENERATIVE_AI_API_KEY } = process.env;
-  if (!SUPABASE_URL || !SUPABASE_KEY || !GOOGLE_GENERATIVE_AI_API_KEY) {
-    throw new Error('Missing one or more required environment variables: SUPABASE_URL, SUPABASE_KEY, GOOGLE_API_KEY');
-  }
+  import { NextRequest, after } from 'next/server';
+  import { chatModel } from '@/lib/models';
+  import { searchRewritten } from '@/lib/retrieval/search';
+  import { rewriteQuery, type ConversationTurn } from '@/lib/retrieval/rewrite';
+  import { createSourceRegistry } from '@/lib/citations';
+  import { resolveTenant, type TenantConfig } from '@/lib/tenants';
+  import { buildSystemPrompt, selectPromptVersion } from '@/lib/prompts';
+  import { leadResultMessage, submitLead } from '@/lib/leads/service';
+  import { buildLeadToolSchema } from '@/lib/leads/schema';
+  import { applyLeadAnswers, describeLeadDraft, emptyLeadDraft, findLeadDraft } from '@/lib/leads/slots';
+  import { notifyLead } from '@/lib/leads/notify';
+  import { chatIpLimiter, chatSessionLimiter, clientIp, isBotSubmission, leadIpLimiter, payloadTooLarge, tooManyRequests } from '@/lib/abuse';
+  import { tenantPolicy } from '@/lib/policy/rules';
+  import { richContentTools } from '@/lib/rich-content/tools';
+  import { followUpsEnabled, suggestFollowUps } from '@/lib/rich-content/suggestions';
+  import { evaluateInput, type PolicyDecision } from '@/lib/policy/input';
+  import { createOutputFilter } from '@/lib/policy/output';
+  import { MAX_BODY_BYTES, MAX_MESSAGE_CHARS, MAX_MESSAGES } from '@/lib/limits';
+  import { findConversationId, getConversationMessages, getOrCreateConversation, isSessionId, purgeExpiredConversations, saveMessages } from '@/lib/conversations';
+  import { embedQuery } from '@/lib/embeddings';
+  import { isOriginRejected, originRejected, preflight, withCors } from '@/lib/cors';
+  import { HANDOFF_RELAYED_TEXT, getHandoffState, relayVisitorMessage } from '@/lib/handoff/service';
+  import { handoffTools } from '@/lib/handoff/tools';
+  import type { HandoffMode, HandoffState } from '@/lib/handoff/events';
+  import { isRefusal, recordChatEvent, type ChatEvent, type ChatOutcome } from '@/lib/analytics/events';
+  import type { RetrievedChunk } from '@/lib/retrieval/search';
+  import type { RetrievedRef } from '@/lib/feedback/queries';
+  import { findFaqOverride, type FaqOverride } from '@/lib/feedback/overrides';
+  import { answerCacheEnabled, cacheAnswer, currentIndexVersion, findCachedAnswer, type CachedAnswer } from '@/lib/cache/answers';
+
+  // Outcome of a lead form submission, attached to the reply.
+  type LeadOutcome = { status: 'saved' | 'duplicate' | 'error' } | { status: 'invalid'; errors: Record<string, string> };
+
+  type PolicyDecisionReason = Extract<PolicyDecision, { action: 'reply' }>['reason'];
 
-  const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+  type ChatMetadata = {
+    createdAt?: string;
+    form?: Record<string, unknown>;
+    // Honeypot value and time spent on the lead form, see isBotSubmission.
+    formCheck?: { honeypot?: string; elapsedMs?: number };
+    lead?: LeadOutcome;
+    // System prompt version that produced the answer, stored with the message for A/B comparisons.
+    promptVersion?: string;
+    // Set when a guardrail answered instead of the model.
+    policy?: PolicyDecisionReason;
+    // Set when the answer came from the semantic answer cache.
+    cached?: boolean;
+    // Id of the FAQ override that answered, see lib/feedback/overrides.ts.
+    faq?: string;
+    // Chunks retrieved for the answer, stored with it so feedback on the answer can show what it was based on.
+    retrieved?: RetrievedRef[];
+    // Set on the bot's notes about a human handoff, with the mode the conversation is in.
+    handoff?: HandoffMode;
+    // Name of the team member who wrote the reply in the operator console.
+    agent?: string;
+  };
 
-  // -------- Google AI SDK --------
-  const embeddingModel = google.embedding('text-embedding-004');  
-  console.log("Google API Key:", process.env.GOOGLE_GENERATIVE_AI_API_KEY);
+  // Custom data parts streamed with a reply: suggested follow-up questions, rendered as chips.
+  type ChatDataParts = { suggestions: string[] };
 
+  type ChatMessage = UIMessage<ChatMetadata, ChatDataParts>;
 
-  // -------- Text chunking --------
-  function chunkText(text: string, size = 800, overlap = 200) {
-    const chunks: string[] = [];
-    for (let i = 0; i < text.length; i += size - overlap) {
-      const piece = text.slice(i, i + size).trim();
-      if (piece.length > 50) chunks.push(piece);
-    }
-    return chunks;
-  }
-
-  // -------- Crawl site --------
-  async function crawlSiteRecursive(browser: Browser, baseUrl: string, depth = 2, visited = new Set<string>()): Promise<string[]> {
-    if (depth <= 0 || visited.has(baseUrl)) return [];
-    visited.add(baseUrl);
-    
-    let page;
-    try {
-      page = await browser.newPage();
-      await page.goto(baseUrl, { waitUntil: "domcontentloaded", timeout: 30000 });
-
-      const links = await page.evaluate(() =>
-        Array.from(new Set(
-          Array.from(document.querySelectorAll("a"))
-            .map(a => (a as HTMLAnchorElement).href)
-            .filter(href => href.startsWith(window.location.origin))
-        ))
-      );
-      
-      await page.close();
-
-      const newLinks: string[] = [baseUrl];
-      for (const link of links) {
-          newLinks.push(...await crawlSiteRecursive(browser, link, depth - 1, visited));
-      }
-      return newLinks;
-    } catch (error) {
-      console.error(`Error crawling ${baseUrl}:`, error);
-      if (page) await page.close();
-      return [];
-    }
-  }
+  const messageText = (message?: ChatMessage) =>
+    message?.parts
+      .filter((p): p is TextUIPart => p.type === 'text')
+      .map(p => p.text)
+      .join(' ') ?? '';
 
+  const conversationTurns = (messages: ChatMessage[]): ConversationTurn[] =>
+    messages
+      .filter(m => m.role === 'user' || m.role === 'assistant')
+      .map(m => ({ role: m.role as ConversationTurn['role'], text: messageText(m) }));
 
-  // -------- Scrape page content --------
-  async function scrapePage(browser: Browser, url: string) {
-    const page = await browser.newPage();
-    try {
-      await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
-      const text = await page.evaluate(() => {
-        document.querySelectorAll('script, style, noscript, svg, img').forEach(el => el.remove());
-        const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, {
-          acceptNode: node => node.textContent && node.textContent.trim().length > 0 ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_REJECT
-        });
+  // -------- API Handler --------
+  export const maxDuration = 60;
 
-        let text = '';
-        while (walker.nextNode()) text += walker.currentNode.textContent + ' ';
-        return text.replace(/\s+/g, ' ').trim();
-      });
-      return chunkText(text);
-    } finally {
-      await page.close();
-    }
+  // Stores a lead through the shared lead service and announces new ones once the response is sent.
+  async function captureLead(tenant: TenantConfig, conversationId: string | null, form: unknown) {
+    const result = await submitLead(tenant, conversationId, form);
+    if (result.status === 'saved') after(() => notifyLead(tenant, result.lead));
+    return result;
   }
 
-  // -------- Embedding helpers --------
-  async function embedText(value: string, retries = 5, delay = 2000) {
-    for (let i = 0; i < retries; i++) {
-      try {
-        const { embedding } = await embed({ model: embeddingModel, value }); 
-        return embedding;
-      } catch (err: unknown) {
-  if (typeof err === "object" && err !== null && "statusCode" in err) {
-    const e = err as { statusCode?: number; message?: string };
-    if (e.statusCode === 429 || e.message?.includes("exhausted")) {
-      console.warn(`Quota hit, retrying in ${delay}ms...`);
-      await new Promise(r => setTimeout(r, delay));
-      delay *= 2;
-    } else {
-      throw err;
+  async function handleChat(req: NextRequest) {
+    const startedAt = Date.now();
+    // Every request costs model and embedding calls, so limits are checked before anything else.
+    const ip = clientIp(req);
+    const ipLimit = await chatIpLimiter.check(ip);
+    if (!ipLimit.allowed) return tooManyRequests(ipLimit.retryAfterMs);
+
+    if (Number(req.headers.get('content-length') ?? 0) > MAX_BODY_BYTES) return payloadTooLarge('This request is too large.');
+    const raw = await req.text();
+    if (Buffer.byteLength(raw) > MAX_BODY_BYTES) return payloadTooLarge('This request is too large.');
+
+    let body: { messages?: ChatMessage[]; query?: string; tenantId?: string; sessionId?: string };
+    try { body = JSON.parse(raw); }
+    catch { return new Response(JSON.stringify({ error: "Invalid JSON" }), { status: 400 }); }
+    // Only the recent history goes to the model; the widget trims it the same way before sending.
+    const messages = (Array.isArray(body?.messages) ? body.messages : []).slice(-MAX_MESSAGES);
+
+    const tenant = resolveTenant(req, body?.tenantId);
+    if (!tenant) {
+      return new Response(JSON.stringify({ error: "Unknown tenant" }), { status: 400 });
     }
-  } else {
-    throw err;
+    if (isOriginRejected(req, tenant)) return originRejected();
 
-        }
-      }
+    if (isSessionId(body?.sessionId)) {
+      const sessionLimit = await chatSessionLimiter.check(`${tenant.id}:${body.sessionId}`);
+      if (!sessionLimit.allowed) return tooManyRequests(sessionLimit.retryAfterMs);
     }
-    throw new Error("Max retries reached for embedding");
-  }
 
-  // -------- Ensure page indexed --------
-  async function ensurePageIndexed(browser: Browser, url: string) { 
-    const { count } = await supabase
-      .from('documents')
-      .select('id', { count: 'exact', head: true })
-      .eq('url', url);
-
-    if (count && count > 0) return;
+    const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
+    const lastUserText = body?.query ?? messageText(lastUserMessage);
 
-    const chunks = await scrapePage(browser, url); 
-    for (const [i, chunk] of chunks.entries()) {
-      const vector = await embedText(chunk);
-      await supabase.from('documents').insert([{ url, chunk_index: i, text: chunk, embedding: vector }]);
+    if (lastUserText.length > MAX_MESSAGE_CHARS) {
+      return payloadTooLarge(`Messages can be at most ${MAX_MESSAGE_CHARS} characters long.`);
     }
 
-    console.log(`Indexed: ${url}`);
-  }
-
-  // -------- Index multiple pages --------
-  async function ensurePagesIndexed(baseUrl: string) {
-    const browser = await puppeteer.launch({ headless: true, args: ['--no-sandbox', '--disable-setuid-sandbox'] });
-    try {
-      const urls = await crawlSiteRecursive(browser, baseUrl);
-      console.log("Found pages:", urls);
-      for (const url of urls) {
-        try { await ensurePageIndexed(browser, url); } catch (err) { console.error("Error indexing", url, err); }
+    // Persist the user's turn up front; the assistant's reply is saved when its stream finishes. While the
+    // conversation is waiting for or with a team member, the turn goes to them instead of the bot.
+    let conversationId: string | null = null;
+    let handoff: HandoffState | null = null;
+    if (isSessionId(body?.sessionId)) {
+      try {
+        conversationId = await getOrCreateConversation(tenant.id, body.sessionId);
+        if (tenant.humanHandoff) handoff = await getHandoffState(conversationId);
+        if (lastUserMessage && handoff && handoff.mode !== 'bot') await relayVisitorMessage(conversationId, lastUserMessage);
+        else if (lastUserMessage) await saveMessages(conversationId, [lastUserMessage]);
+      } catch (e) {
+        console.error('Conversation save error:', e);
       }
-      console.log("✅ Indexing complete!");
-    } finally {
-      await browser.close();
     }
-  }
-
-  // -------- Search --------
-  async function searchDocuments(query: string, topK = 5) {
-    const queryEmb = await embedText(query);
-    const { data, error } = await supabase.rpc('match_documents', { query_embedding: queryEmb, match_count: topK });
-    if (error) throw error;
-    type DocumentRow = { text: string };
-    return (data as DocumentRow[] ?? []).map(d => d.text).join("\n\n");
-  }
 
-  // -------- API Handler --------
-  let indexingStarted = false;
-  export const maxDuration = 60;
-
-  export async function POST(req: NextRequest) {
-    const body = (await req.json()) as { messages: ChatMessage[]; query?: string };
-    const messages = body?.messages ?? [];
+    // Each turn is recorded for analytics once its reply has been sent, with what retrieval found along the way.
+    const retrieval = { topSimilarity: null as number | null, count: 0, refs: [] as RetrievedRef[] };
+    const noteRetrieval = (chunks: RetrievedChunk[]) => {
+      retrieval.count += chunks.length;
+      for (const chunk of chunks) {
+        retrieval.topSimilarity = Math.max(retrieval.topSimilarity ?? 0, chunk.similarity);
+        retrieval.refs.push({ url: chunk.url, title: chunk.title, chunkIndex: chunk.chunkIndex, similarity: chunk.similarity });
+      }
+    };
+    let leadCaptured = false;
+    let analyticsQuery: string | null = lastUserText;
+    const recordTurn = (outcome: ChatOutcome, details: Partial<ChatEvent> = {}) =>
+      recordChatEvent({
+        tenantId: tenant.id,
+        conversationId,
+        query: analyticsQuery,
+        outcome,
+        topSimilarity: retrieval.topSimilarity,
+        retrievedCount: retrieval.count,
+        latencyMs: Date.now() - startedAt,
+        leadCaptured,
+        ...details,
+      });
 
+    const saveResponse = async ({ responseMessage }: { responseMessage: ChatMessage }) => {
+      if (!conversationId) return;
+      const message = retrieval.refs.length > 0
+        ? { ...responseMessage, metadata: { ...responseMessage.metadata, retrieved: retrieval.refs } }
+        : responseMessage;
+      try { await saveMessages(conversationId, [message]); }
+      catch (e) { console.error('Conversation save error:', e); }
+    };
+
+    // Answers without the model: a single text part, with metadata telling the client why.
+    const replyWithText = (text: string, metadata: ChatMetadata, outcome: ChatOutcome) => {
+      const stream = createUIMessageStream<ChatMessage>({
+        originalMessages: messages,
+        onFinish: saveResponse,
+        execute: async ({ writer }) => {
+          writer.write({ type: 'start', messageMetadata: { createdAt: new Date().toISOString(), ...metadata } });
+          writer.write({ type: 'text-start', id: 'reply' });
+          writer.write({ type: 'text-delta', id: 'reply', delta: text });
+          writer.write({ type: 'text-end', id: 'reply' });
+          writer.write({ type: 'finish' });
+          await recordTurn(outcome);
+        },
+      });
+      return createUIMessageStreamResponse({ stream });
+    };
+
+    // Cached answers are replayed word by word with their sources, like a generated answer.
+    const replyFromCache = (cached: CachedAnswer, promptVersion: string) => {
+      const stream = createUIMessageStream<ChatMessage>({
+        originalMessages: messages,
+        onFinish: saveResponse,
+        execute: async ({ writer }) => {
+          writer.write({ type: 'start', messageMetadata: { createdAt: new Date().toISOString(), promptVersion, cached: true } });
+          writer.write({ type: 'text-start', id: 'reply' });
+          for (const delta of cached.text.match(/\S+\s*|\s+/g) ?? []) writer.write({ type: 'text-delta', id: 'reply', delta });
+          writer.write({ type: 'text-end', id: 'reply' });
+          for (const source of cached.sources) {
+            writer.write({ type: 'source-url', sourceId: String(source.id), url: source.url, title: source.title });
+          }
+          if (cached.suggestions?.length) writer.write({ type: 'data-suggestions', data: cached.suggestions });
+          writer.write({ type: 'finish' });
+          await recordTurn('cached', { promptVersion });
+        },
+      });
+      return createUIMessageStreamResponse({ stream, headers: { 'x-prompt-version': promptVersion, 'x-answer-cache': 'hit' } });
+    };
+
+    // FAQ overrides are replayed the same way, with the page the reviewer chose as their source.
+    const replyFromFaq = (override: FaqOverride) => {
+      const stream = createUIMessageStream<ChatMessage>({
+        originalMessages: messages,
+        onFinish: saveResponse,
+        execute: async ({ writer }) => {
+          writer.write({ type: 'start', messageMetadata: { createdAt: new Date().toISOString(), faq: override.id } });
+          writer.write({ type: 'text-start', id: 'reply' });
+          for (const delta of override.answer.match(/\S+\s*|\s+/g) ?? []) writer.write({ type: 'text-delta', id: 'reply', delta });
+          writer.write({ type: 'text-end', id: 'reply' });
+          if (override.source_url) writer.write({ type: 'source-url', sourceId: '1', url: override.source_url });
+          writer.write({ type: 'finish' });
+          await recordTurn('faq');
+        },
+      });
+      return createUIMessageStreamResponse({ stream });
+    };
+
+    // Form submissions are answered directly with the outcome; the client reads `metadata.lead` to show field errors.
+    const formData = lastUserMessage?.metadata?.form;
+    if (formData) {
+      analyticsQuery = null;
+      const leadLimit = await leadIpLimiter.check(ip);
+      if (!leadLimit.allowed) return tooManyRequests(leadLimit.retryAfterMs);
+
+      let lead: LeadOutcome;
+      let text: string;
+      try {
+        // Bots get the usual thank-you so they have nothing to adapt to, but nothing is stored.
+        if (isBotSubmission(lastUserMessage?.metadata?.formCheck)) {
+          console.warn('Lead form bot check failed:', ip);
+          lead = { status: 'saved' };
+          text = '✅ Thanks! Your inquiry has been received.';
+        } else {
+          const result = await captureLead(tenant, conversationId, formData);
+          leadCaptured = result.status === 'saved';
+          lead = result.status === 'invalid' ? { status: 'invalid', errors: result.errors } : { status: result.status };
+          text = leadResultMessage(result);
+        }
+      } catch (e) {
+        console.error('Lead save error:', e);
+        lead = { status: 'error' };
+        text = 'Sorry, we could not save your details. Please try again in a moment.';
+      }
 
-    const lastUserMessage = [...messages].reverse().find(m => m.role === 'user');
-  type ChatMetadata = {
-  form?: {
-    fullName: string;
-    email: string;
-    phone?: string;
-    company?: string;
-    inquiryType?: string;
-    message?: string;
-    contactMethod?: string;
-    bestTime?: string;
-    agree?: boolean;
-    newsletter?: boolean;
-  };
-};
-
-type ChatMessage = {
-  role: 'user' | 'assistant' | 'system';
-  parts: ChatPart[];
-  metadata?: ChatMetadata;
-};
-
-const formData = lastUserMessage?.metadata?.form;
-  if (formData) {
-    const { error } = await supabase.from('user_leads').insert([{
-      name: formData.fullName,
-      email: formData.email,
-      phone: formData.phone,
-      company: formData.company,
-      inquiry_type: formData.inquiryType,
-      message: formData.message,
-      contact_method: formData.contactMethod,
-      best_time: formData.bestTime,
-      agree: formData.agree,
-      newsletter: formData.newsletter,
-    }]);
-
-    if (error) {
-      console.error("❌ Supabase insert error:", error);
-      return new Response(JSON.stringify({ error: "Failed to save lead" }), { status: 500 });
+      return replyWithText(text, { lead }, 'lead_form');
     }
 
-    return new Response(JSON.stringify({ text: `✅ Thanks ${formData.fullName}! Your inquiry has been received.` }), { status: 200 });
-  }
-
-
+    // The widget sends these turns to /api/handoff/messages; this covers clients that missed the handoff.
+    if (handoff && handoff.mode !== 'bot') return replyWithText(HANDOFF_RELAYED_TEXT, { handoff: handoff.mode }, 'handoff');
+
+    // Contact details collected over earlier turns. Saving needs a summary shown in an earlier turn, so the
+    // customer has seen it before confirming.
+    let leadDraft = findLeadDraft(messages);
+    let confirmable = leadDraft.stage === 'confirming';
+
+    // Guardrails run before retrieval and generation. The classifier is skipped while contact details are
+    // being collected, where short answers like a name would look off-topic.
+    const policy = tenantPolicy(tenant);
+    const collectingLead = leadDraft.stage === 'confirming' || Object.keys(leadDraft.values).length > 0;
+    // Answers to the contact details flow are personal data, not questions.
+    if (collectingLead) analyticsQuery = null;
+    const decision = await evaluateInput(policy, lastUserText, {
+      classify: process.env.POLICY_CLASSIFIER !== 'off' && !collectingLead,
+      previousAssistantText: messageText([...messages].reverse().find(m => m.role === 'assistant')),
+    });
+    if (decision.action === 'reply') return replyWithText(decision.text, { policy: decision.reason }, decision.reason);
 
-    
+    const promptVersion = selectPromptVersion(tenant, body?.sessionId);
 
+    // Follow-ups like "how much does it cost?" are searched as standalone queries built from the earlier turns.
+    // Opening questions are searched as typed, without a model call.
+    const earlierTurns = conversationTurns(messages.slice(0, lastUserMessage ? messages.lastIndexOf(lastUserMessage) : messages.length));
+    const rewritten = lastUserText ? await rewriteQuery(lastUserText, earlierTurns) : null;
 
-    
-    const lastUserText =
-      body?.query ?? [...messages].reverse().find(m => m.role === 'user')?.parts
-        ?.filter(p => p.type === 'text')
-        ?.map(p => p.text)
-        ?.join(' ') ?? '';
+    // Answers corrected by a reviewer take precedence over the cache and the index.
+    if (rewritten && !collectingLead) {
+      try {
+        const override = await findFaqOverride(tenant.id, rewritten.query);
+        if (override) return replyFromFaq(override);
+      } catch (e) {
+        console.error('FAQ override error:', e);
+      }
+    }
 
-    // Index only once
-    if (!indexingStarted) {
-      indexingStarted = true;
-      ensurePagesIndexed('https://swarise.com/').catch(console.error);
+    // Opening questions are answered from the cache when a near-duplicate was answered against the same index
+    // and prompt version. Later turns depend on the conversation so far and are always generated.
+    const isOpeningQuestion = messages.filter(m => m.role === 'user').length === 1;
+    let answerCache: { embedding: number[]; indexVersion: string } | null = null;
+    if (answerCacheEnabled && isOpeningQuestion && !collectingLead && lastUserText) {
+      try {
+        answerCache = { embedding: await embedQuery(lastUserText), indexVersion: await currentIndexVersion(tenant.id) };
+        const cached = await findCachedAnswer(tenant.id, answerCache.indexVersion, promptVersion, answerCache.embedding);
+        if (cached) return replyFromCache(cached, promptVersion);
+      } catch (e) {
+        console.error('Answer cache error:', e);
+      }
     }
 
+    const sources = createSourceRegistry();
     let retrievedText = '';
-    if (lastUserText) {
-      try { retrievedText = await searchDocuments(lastUserText, 4); } 
+    // Everything retrieved for this reply, including tool calls; follow-up suggestions are grounded in it.
+    let groundingText = '';
+    if (rewritten) {
+      try {
+        const chunks = await searchRewritten(tenant.id, rewritten, 4);
+        noteRetrieval(chunks);
+        retrievedText = sources.format(chunks);
+        groundingText = retrievedText;
+      }
       catch (e) { console.error('Vector search error:', e); }
     }
 
-    const systemPrompt = retrievedText
-  ? `You are a professional content assistant.
-
-Always return the retrieved webpage text **exactly as it is**, without rewriting, summarizing, or rephrasing.
-Do not change words. Do not add any external references or external content or external informatons
-You may summarize, rephrase, and structure the information in readable paragraphs.
-
-• For any question outside Swarise, do not answer. 
-Always reply exactly: "I can only provide information about Swarise and its services."
-
-
-Rules:
-• if the user ask hi, hello: reply with "Hello! How can I assist you with Swarise today?"
-• if the user ask who are you: reply with "I am a virtual assistant for Swarise, here to help you with information about our services."
-• if the user ask what can you do: reply with "I can provide information.
-
-• If the user asks anything outside Swarise (like jokes, general knowledge, personal queries), reply with:  
-  "I can only provide information about Swarise and its services."  
-• Always return the retrieved webpage text **exactly as it is**, without rewriting, summarizing, or rephrasing.  
-• Do not add any external references or unrelated information. 
-Formatting rules:
-• Use bullet points (•) for lists.  
-• Keep answers clean, simple, and professional.  
-• Do not use symbols like *, #, or - other than bullets.  
-
-If the user asks specifically about:
-- Location of Swarise: provide exactly "Velacherry, Chennai".
-- Email or contact of Swarise: provide exactly "info@swarise.com".
-- Phone number of Swarise: provide exactly "+919841556667".
-
-You are a helpful financial assistant. 
-Do not mention or provide information about "Wealth Management", 
-"Investment Planning", or "Retirement Planning" in any of your answers. 
-If a user asks about these topics, politely say: 
-"Sorry, I cannot provide details on that topic. Can I help you with something else?"
-
-Never mention or display these three services anywhere in your response. 
-
-
-Here’s the retrieved content:
-${retrievedText}
-
-Respond concisely and accurately in plain text.`
-  : `You are a professional content assistant.
-
-Respond clearly, concisely, and logically.
-Always return the retrieved webpage text **exactly as it is**, without rewriting, summarizing, or rephrasing.
-Do not change words.
-Formatting rules:
-• Use bullet points (•) for lists.  
-• Keep answers clean, simple, and professional.  
-• Do not use symbols like *, #, or - other than bullets.
-
-• If the user asks anything outside Swarise (like jokes, general knowledge, personal queries), reply with:  
-  "I can only provide information about Swarise and its services."  
-• Always return the retrieved webpage text **exactly as it is**, without rewriting, summarizing, or rephrasing.  
-• Do not add any external references or unrelated information.
-
-• For any question outside Swarise, do not answer. 
-Always reply exactly: "I can only provide information about Swarise and its services."
-
-
-You are a helpful financial assistant. 
-Do not mention or provide information about "Wealth Management", 
-"Investment Planning", or "Retirement Planning" in any of your answers. 
-If a user asks about these topics, politely say: 
-"Sorry, I cannot provide details on that topic. Can I help you with something else?"
- 
-
-
-Never mention or display these three services anywhere in your response. 
-`;
+    const systemPrompt = buildSystemPrompt(tenant, retrievedText, promptVersion);
 
     const result = streamText({
-      model: google('gemini-2.5-flash'),
+      model: chatModel,
       messages: [
         { role: 'system', content: systemPrompt },
         ...convertToModelMessages(messages),
@@ -313,47 +328,169 @@ Never mention or display these three services anywhere in your response.
       stopWhen: stepCountIs(10),
       tools: {
         retrieveDocument: tool({
-          description: 'Retrieve relevant documents from Supabase vector DB.',
+          description: 'Retrieve relevant documents from Supabase vector DB. Snippets are numbered by source; cite them as [n].',
           inputSchema: z.object({ query: z.string() }),
           execute: async ({ query }) => {
-            const docs = await searchDocuments(query || lastUserText, 4);
+            const rewritten = await rewriteQuery(query || lastUserText, conversationTurns(messages));
+            const chunks = await searchRewritten(tenant.id, rewritten, 4);
+            noteRetrieval(chunks);
+            const docs = sources.format(chunks);
+            groundingText = [groundingText, docs].filter(Boolean).join('\n\n');
             return { text: docs || 'No relevant documents found.' };
           },
         }),
 
        collectForm: tool({
-        description: 'Collect full customer inquiry details (name, email, phone, etc.)',
+        description: 'Collect the customer\'s contact details one field at a time and save them once the customer confirms the summary.',
         inputSchema: z.object({
-          fullName: z.string(),
-          email: z.string().email(),
-          phone: z.string().optional(),
-          company: z.string().optional(),
-          inquiryType: z.string().optional(),
-          message: z.string().optional(),
-          contactMethod: z.string().optional(),
-          bestTime: z.string().optional(),
-          agree: z.boolean().default(false),
-          newsletter: z.boolean().default(false),
+          action: z.enum(['update', 'confirm', 'cancel'])
+            .describe('"update" records answers, "confirm" saves after the customer approved the summary, "cancel" discards the details'),
+          values: buildLeadToolSchema(tenant.leadForm.fields).optional()
+            .describe('Answers the customer gave, including corrections to earlier answers'),
+          skip: z.array(z.string()).optional().describe('Names of optional fields the customer does not want to give'),
         }),
-        execute: async (data) => {
-          const { error } = await supabase.from('user_leads').insert([{
-            name: data.fullName,
-            email: data.email,
-            phone: data.phone,
-            company: data.company,
-            inquiry_type: data.inquiryType,
-            message: data.message,
-            contact_method: data.contactMethod,
-            best_time: data.bestTime,
-            agree: data.agree,
-            newsletter: data.newsletter,
-          }]);
-          if (error) throw error;
-          return { text: `✅ Thanks ${data.fullName}! Your inquiry has been received.` };
+        execute: async ({ action, values, skip }) => {
+          const { fields } = tenant.leadForm;
+
+          if (action === 'cancel') {
+            leadDraft = emptyLeadDraft();
+            return { status: 'cancelled', draft: leadDraft, text: 'The details were discarded.' };
+          }
+
+          if (action === 'confirm' && leadDraft.stage === 'confirming' && confirmable) {
+            if (!(await leadIpLimiter.check(ip)).allowed) {
+              return { status: 'rate_limited', draft: leadDraft, text: 'Too many submissions from this network. Ask the customer to try again later.' };
+            }
+            const result = await captureLead(tenant, conversationId, leadDraft.values);
+            if (result.status === 'saved') leadCaptured = true;
+            if (result.status !== 'invalid') {
+              leadDraft = emptyLeadDraft();
+              return { status: result.status, draft: leadDraft, text: leadResultMessage(result) };
+            }
+            // Drop the rejected answers so they are asked again.
+            const values = Object.fromEntries(Object.entries(leadDraft.values).filter(([name]) => !(name in result.errors)));
+            const step = describeLeadDraft(fields, { ...leadDraft, values }, result.errors);
+            leadDraft = step.draft;
+            return step;
+          }
+
+          // Answers (or a premature confirm) always come back with the next question or the summary to confirm.
+          const applied = applyLeadAnswers(fields, leadDraft, action === 'update' ? values ?? {} : {}, skip);
+          const step = describeLeadDraft(fields, applied.draft, applied.errors);
+          if (action === 'update') confirmable = false;
+          leadDraft = step.draft;
+          return step;
         }
-        })
+        }),
+
+        ...richContentTools({ policy, isRetrieved: url => sources.isRetrieved(url) }),
+        ...(tenant.humanHandoff && conversationId ? handoffTools(conversationId) : {}),
       },
     });
 
-    return result.toUIMessageStreamResponse();
+    // Sources go out after the answer, limited to the retrieved pages the answer actually cites. The answer
+    // passes the policy's output filter first.
+    const stream = createUIMessageStream<ChatMessage>({
+      originalMessages: messages,
+      onFinish: saveResponse,
+      execute: async ({ writer }) => {
+        let answer = '';
+        // Cached answers replay text and sources only, so replies that used other tools are not cached.
+        let usedOtherTools = false;
+        const toolsUsed = new Set<string>();
+        let firstTokenMs: number | null = null;
+        let failed = false;
+        const reader = result
+          .toUIMessageStream<ChatMessage>({
+            sendFinish: false,
+            messageMetadata: ({ part }) => (part.type === 'start' ? { createdAt: new Date().toISOString(), promptVersion } : undefined),
+          })
+          .pipeThrough(createOutputFilter<ChatMetadata, ChatDataParts>(policy))
+          .getReader();
+        for (let next = await reader.read(); !next.done; next = await reader.read()) {
+          const chunk = next.value;
+          if (chunk.type === 'text-delta') {
+            answer += chunk.delta;
+            firstTokenMs ??= Date.now() - startedAt;
+          }
+          if (chunk.type === 'tool-input-start') toolsUsed.add(chunk.toolName);
+          if (chunk.type === 'tool-input-start' && chunk.toolName !== 'retrieveDocument') usedOtherTools = true;
+          if (chunk.type === 'error') failed = true;
+          writer.write(chunk);
+        }
+        const cited = sources.cited(answer);
+        for (const source of cited) {
+          writer.write({ type: 'source-url', sourceId: String(source.id), url: source.url, title: source.title });
+        }
+
+        writer.write({ type: 'finish' });
+
+        // Suggestions follow the finished reply as a late data part, within FOLLOW_UP_TIMEOUT_MS. Replies that
+        // ran a tool flow (contact details, quick replies) already tell the visitor what to do next.
+        let suggestions: string[] = [];
+        if (followUpsEnabled && !usedOtherTools && !collectingLead) {
+          suggestions = await suggestFollowUps(policy, lastUserText, answer, groundingText);
+          if (suggestions.length > 0) writer.write({ type: 'data-suggestions', data: suggestions });
+        }
+
+        if (answerCache && answer.trim() && !usedOtherTools && (await result.finishReason) === 'stop') {
+          const { embedding, indexVersion } = answerCache;
+          const entry = { question: lastUserText, embedding, text: answer, sources: cited, suggestions, createdAt: new Date().toISOString() };
+          await cacheAnswer(tenant.id, indexVersion, promptVersion, entry).catch(e => console.error('Answer cache error:', e));
+        }
+
+        const usage = await result.totalUsage.catch(() => undefined);
+        await recordTurn(failed ? 'error' : isRefusal(answer, policy) ? 'refused' : 'answered', {
+          promptVersion,
+          firstTokenMs,
+          inputTokens: usage?.inputTokens ?? null,
+          outputTokens: usage?.outputTokens ?? null,
+          tools: [...toolsUsed],
+        });
+      },
+    });
+
+    return createUIMessageStreamResponse({ stream, headers: { 'x-prompt-version': promptVersion } });
+  }
+
+  // -------- Conversation history --------
+  // GET /api/chat?sessionId=<id> returns the stored messages so the widget can resume after a reload, and
+  // whether a team member has the conversation.
+  async function handleHistory(req: NextRequest) {
+    const tenant = resolveTenant(req);
+    if (!tenant) {
+      return new Response(JSON.stringify({ error: "Unknown tenant" }), { status: 400 });
+    }
+    if (isOriginRejected(req, tenant)) return originRejected();
+
+    const sessionId = req.nextUrl.searchParams.get('sessionId');
+    if (!isSessionId(sessionId)) {
+      return new Response(JSON.stringify({ error: "Invalid sessionId" }), { status: 400 });
+    }
+
+    after(() => purgeExpiredConversations().catch(e => console.error('Conversation purge error:', e)));
+
+    try {
+      const conversationId = await findConversationId(tenant.id, sessionId);
+      const messages = conversationId ? await getConversationMessages(conversationId) : [];
+      const handoff = conversationId && tenant.humanHandoff ? await getHandoffState(conversationId) : null;
+      return new Response(JSON.stringify({ messages, handoff }), { status: 200 });
+    } catch (e) {
+      console.error('Conversation load error:', e);
+      return new Response(JSON.stringify({ error: "Failed to load conversation" }), { status: 500 });
+    }
+  }
+
+  // -------- CORS --------
+  // The widget, or a site's own client, may call the API from the tenant's other origins.
+  export async function POST(req: NextRequest) {
+    return withCors(req, await handleChat(req));
+  }
+
+  export async function GET(req: NextRequest) {
+    return withCors(req, await handleHistory(req));
+  }
+
+  export async function OPTIONS(req: NextRequest) {
+    return preflight(req);
   }
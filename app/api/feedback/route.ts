@@ -0,0 +1,52 @@
+import type { NextRequest } from 'next/server';
+import { resolveTenant } from '@/lib/tenants';
+import { chatIpLimiter, chatSessionLimiter, clientIp, tooManyRequests } from '@/lib/abuse';
+import { findConversationId, isSessionId } from '@/lib/conversations';
+import { isOriginRejected, originRejected, preflight, withCors } from '@/lib/cors';
+import { saveFeedback } from '@/lib/feedback/queries';
+
+const json = (data: unknown, status = 200) => new Response(JSON.stringify(data), { status });
+
+// -------- Answer feedback --------
+// POST /api/feedback { tenantId, sessionId, messageId, rating: 'up' | 'down', comment? } rates an answer in
+// the visitor's stored conversation. Rating it again replaces the earlier rating.
+async function handleFeedback(req: NextRequest) {
+  const ipLimit = await chatIpLimiter.check(clientIp(req));
+  if (!ipLimit.allowed) return tooManyRequests(ipLimit.retryAfterMs);
+
+  let body: { tenantId?: string; sessionId?: string; messageId?: string; rating?: string; comment?: string };
+  try { body = await req.json(); }
+  catch { return json({ error: 'Invalid JSON' }, 400); }
+
+  const tenant = resolveTenant(req, body?.tenantId);
+  if (!tenant) return json({ error: 'Unknown tenant' }, 400);
+  if (isOriginRejected(req, tenant)) return originRejected();
+  if (!isSessionId(body?.sessionId)) return json({ error: 'Invalid sessionId' }, 400);
+
+  const sessionLimit = await chatSessionLimiter.check(`${tenant.id}:${body.sessionId}`);
+  if (!sessionLimit.allowed) return tooManyRequests(sessionLimit.retryAfterMs);
+
+  const { messageId, rating, comment } = body;
+  if (typeof messageId !== 'string' || !messageId || (rating !== 'up' && rating !== 'down')) {
+    return json({ error: 'Invalid feedback' }, 400);
+  }
+  if (comment !== undefined && typeof comment !== 'string') return json({ error: 'Invalid feedback' }, 400);
+
+  try {
+    const conversationId = await findConversationId(tenant.id, body.sessionId);
+    const saved = conversationId && await saveFeedback(tenant.id, conversationId, messageId, rating, comment);
+    if (!saved) return json({ error: 'Message not found' }, 404);
+    return json({ ok: true });
+  } catch (e) {
+    console.error('Feedback save error:', e);
+    return json({ error: 'Failed to save feedback' }, 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  return withCors(req, await handleFeedback(req));
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
@@ -0,0 +1,66 @@
+import type { UIMessage } from 'ai';
+import type { NextRequest } from 'next/server';
+import { resolveTenant } from '@/lib/tenants';
+import { chatIpLimiter, chatSessionLimiter, clientIp, tooManyRequests } from '@/lib/abuse';
+import { findConversationId, isSessionId } from '@/lib/conversations';
+import { isOriginRejected, originRejected, preflight, withCors } from '@/lib/cors';
+import { MAX_MESSAGE_CHARS } from '@/lib/limits';
+import { getHandoffState, relayVisitorMessage } from '@/lib/handoff/service';
+
+const json = (data: unknown, status = 200) => new Response(JSON.stringify(data), { status });
+
+// -------- Visitor messages --------
+// POST /api/handoff/messages { tenantId, sessionId, id, text } sends the visitor's message to the team member
+// instead of the bot. Only accepted while the conversation is waiting for or with a team member.
+async function handleMessage(req: NextRequest) {
+  const ipLimit = await chatIpLimiter.check(clientIp(req));
+  if (!ipLimit.allowed) return tooManyRequests(ipLimit.retryAfterMs);
+
+  let body: { tenantId?: string; sessionId?: string; id?: string; text?: string };
+  try { body = await req.json(); }
+  catch { return json({ error: 'Invalid JSON' }, 400); }
+
+  const tenant = resolveTenant(req, body?.tenantId);
+  if (!tenant?.humanHandoff) return json({ error: 'Unknown tenant' }, 400);
+  if (isOriginRejected(req, tenant)) return originRejected();
+  if (!isSessionId(body?.sessionId)) return json({ error: 'Invalid sessionId' }, 400);
+
+  const sessionLimit = await chatSessionLimiter.check(`${tenant.id}:${body.sessionId}`);
+  if (!sessionLimit.allowed) return tooManyRequests(sessionLimit.retryAfterMs);
+
+  const text = typeof body?.text === 'string' ? body.text.trim() : '';
+  if (!text || typeof body?.id !== 'string' || !/^[\w-]{1,100}$/.test(body.id)) {
+    return json({ error: 'Invalid message' }, 400);
+  }
+  if (text.length > MAX_MESSAGE_CHARS) {
+    return json({ error: 'payload_too_large', message: `Messages can be at most ${MAX_MESSAGE_CHARS} characters long.` }, 413);
+  }
+
+  try {
+    const conversationId = await findConversationId(tenant.id, body.sessionId);
+    if (!conversationId) return json({ error: 'Conversation not found' }, 404);
+    // The client goes back to /api/chat when told the conversation is with the bot again.
+    const handoff = await getHandoffState(conversationId);
+    if (handoff.mode === 'bot') return json({ error: 'No team member is handling this chat', handoff }, 409);
+
+    const message: UIMessage = {
+      id: body.id,
+      role: 'user',
+      parts: [{ type: 'text', text }],
+      metadata: { createdAt: new Date().toISOString() },
+    };
+    await relayVisitorMessage(conversationId, message);
+    return json({ handoff });
+  } catch (e) {
+    console.error('Handoff message error:', e);
+    return json({ error: 'Failed to send message' }, 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  return withCors(req, await handleMessage(req));
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
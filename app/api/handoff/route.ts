@@ -0,0 +1,96 @@
+import type { UIMessage } from 'ai';
+import type { NextRequest } from 'next/server';
+import { resolveTenant } from '@/lib/tenants';
+import { chatIpLimiter, clientIp, tooManyRequests } from '@/lib/abuse';
+import { findConversationId, getConversationMessages, getOrCreateConversation, isSessionId } from '@/lib/conversations';
+import { isOriginRejected, originRejected, preflight, withCors } from '@/lib/cors';
+import { conversationChannel, defaultHandoffBus } from '@/lib/handoff/events';
+import { getHandoffState, requestHandoff, saveHandoffNotice } from '@/lib/handoff/service';
+import { eventStreamResponse } from '@/lib/handoff/sse';
+
+export const dynamic = 'force-dynamic';
+// Event streams stay open; EventSource reconnects when the platform closes one.
+export const maxDuration = 300;
+
+const isAgentMessage = (message: UIMessage) => !!(message.metadata as { agent?: string } | undefined)?.agent;
+
+const json = (data: unknown, status = 200) => new Response(JSON.stringify(data), { status });
+
+// -------- Request a person --------
+// POST /api/handoff { tenantId, sessionId } is the widget's "Talk to a person" button. Returns the new state
+// and the assistant's note to show the visitor.
+async function handleRequest(req: NextRequest) {
+  const ipLimit = await chatIpLimiter.check(clientIp(req));
+  if (!ipLimit.allowed) return tooManyRequests(ipLimit.retryAfterMs);
+
+  let body: { tenantId?: string; sessionId?: string };
+  try { body = await req.json(); }
+  catch { return json({ error: 'Invalid JSON' }, 400); }
+
+  const tenant = resolveTenant(req, body?.tenantId);
+  if (!tenant?.humanHandoff) return json({ error: 'Unknown tenant' }, 400);
+  if (isOriginRejected(req, tenant)) return originRejected();
+  if (!isSessionId(body?.sessionId)) return json({ error: 'Invalid sessionId' }, 400);
+
+  try {
+    const conversationId = await getOrCreateConversation(tenant.id, body.sessionId);
+    const handoff = await requestHandoff(conversationId, 'The visitor asked to talk to a person.');
+    const message = await saveHandoffNotice(conversationId);
+    return json({ handoff, message });
+  } catch (e) {
+    console.error('Handoff request error:', e);
+    return json({ error: 'Failed to request a team member' }, 500);
+  }
+}
+
+async function loadConversationState(tenantId: string, sessionId: string) {
+  const conversationId = await findConversationId(tenantId, sessionId);
+  if (!conversationId) return null;
+  const [state, messages] = await Promise.all([getHandoffState(conversationId), getConversationMessages(conversationId)]);
+  return { conversationId, state, messages };
+}
+
+// -------- Visitor events --------
+// GET /api/handoff?sessionId=<id> streams the conversation's handoff state and the replies of the team member.
+// Each (re)connection starts with the current state and the team members' stored replies, which the widget
+// adds by id, so nothing sent while it was disconnected is missed.
+async function handleEvents(req: NextRequest) {
+  const tenant = resolveTenant(req);
+  if (!tenant?.humanHandoff) return json({ error: 'Unknown tenant' }, 400);
+  if (isOriginRejected(req, tenant)) return originRejected();
+
+  const sessionId = req.nextUrl.searchParams.get('sessionId');
+  if (!isSessionId(sessionId)) return json({ error: 'Invalid sessionId' }, 400);
+
+  let conversation: Awaited<ReturnType<typeof loadConversationState>>;
+  try {
+    conversation = await loadConversationState(tenant.id, sessionId);
+  } catch (e) {
+    console.error('Handoff events error:', e);
+    return json({ error: 'Failed to load conversation' }, 500);
+  }
+  if (!conversation) return json({ error: 'Conversation not found' }, 404);
+  const { conversationId, state, messages } = conversation;
+
+  const channel = conversationChannel(conversationId);
+  return eventStreamResponse(req.signal, send => {
+    send({ type: 'state', ...state });
+    for (const message of messages.filter(isAgentMessage)) send({ type: 'message', message });
+    // The visitor's own messages are already on their screen.
+    return defaultHandoffBus.subscribe(channel, event => {
+      if (event.type !== 'message' || event.message.role === 'assistant') send(event);
+    });
+  });
+}
+
+export async function POST(req: NextRequest) {
+  return withCors(req, await handleRequest(req));
+}
+
+export async function GET(req: NextRequest) {
+  return withCors(req, await handleEvents(req));
+}
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
@@ -0,0 +1,29 @@
+import { NextRequest } from 'next/server';
+import { isAdminRequest, unauthorized } from '@/lib/auth';
+import { cancelIndexJob, getIndexJob } from '@/lib/indexing/jobs';
+
+type Params = { params: Promise<{ id: string }> };
+
+// -------- Job status --------
+export async function GET(req: NextRequest, { params }: Params) {
+  if (!isAdminRequest(req)) return unauthorized();
+
+  const { id } = await params;
+  const job = await getIndexJob(id);
+  if (!job) return new Response(JSON.stringify({ error: 'Job not found' }), { status: 404 });
+
+  return new Response(JSON.stringify({ job }), { status: 200 });
+}
+
+// -------- Cancel a job --------
+export async function DELETE(req: NextRequest, { params }: Params) {
+  if (!isAdminRequest(req)) return unauthorized();
+
+  const { id } = await params;
+  const cancelled = await cancelIndexJob(id);
+  if (!cancelled) {
+    return new Response(JSON.stringify({ error: 'Job not found or already finished' }), { status: 404 });
+  }
+
+  return new Response(JSON.stringify({ job: await getIndexJob(id) }), { status: 200 });
+}
@@ -0,0 +1,65 @@
+import { NextRequest, after } from 'next/server';
+import { z } from 'zod';
+import { isAdminRequest, unauthorized } from '@/lib/auth';
+import { createIndexJob, listIndexJobs, runIndexJob } from '@/lib/indexing/jobs';
+import { embeddingStatus } from '@/lib/retrieval/store';
+import { DEFAULT_TENANT_ID, getTenant } from '@/lib/tenants';
+
+export const maxDuration = 300;
+
+const pattern = z.string().refine(value => {
+  try {
+    new RegExp(value);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'Invalid regular expression');
+
+const startJobSchema = z.object({
+  tenantId: z.string().default(DEFAULT_TENANT_ID),
+  // Defaults to the tenant's site URL.
+  url: z.url().optional(),
+  depth: z.number().int().min(1).max(10).optional(),
+  maxPages: z.number().int().min(1).max(5000).optional(),
+  concurrency: z.number().int().min(1).max(16).optional(),
+  include: z.array(pattern).optional(),
+  exclude: z.array(pattern).optional(),
+});
+
+// -------- Start an indexing job --------
+export async function POST(req: NextRequest) {
+  if (!isAdminRequest(req)) return unauthorized();
+
+  const parsed = startJobSchema.safeParse(await req.json().catch(() => ({})));
+  if (!parsed.success) {
+    return new Response(JSON.stringify({ error: 'Invalid request', issues: parsed.error.issues }), { status: 400 });
+  }
+
+  const { tenantId, url, ...options } = parsed.data;
+  const tenant = getTenant(tenantId);
+  if (!tenant) {
+    return new Response(JSON.stringify({ error: 'Unknown tenant' }), { status: 400 });
+  }
+
+  const job = await createIndexJob(tenant.id, url ?? tenant.siteUrl, options);
+  if (!job) {
+    return new Response(JSON.stringify({ error: 'An indexing job is already running for this site' }), { status: 409 });
+  }
+
+  after(() => runIndexJob(job));
+  return new Response(JSON.stringify({ job }), { status: 202 });
+}
+
+// -------- List recent jobs (optionally ?tenant=<id>) --------
+// Also reports whether the tenant's stored vectors came from another embedding model and need re-indexing.
+export async function GET(req: NextRequest) {
+  if (!isAdminRequest(req)) return unauthorized();
+
+  const tenantId = req.nextUrl.searchParams.get('tenant') ?? undefined;
+  const [jobs, embeddings] = await Promise.all([
+    listIndexJobs(tenantId),
+    embeddingStatus(tenantId ?? DEFAULT_TENANT_ID),
+  ]);
+  return new Response(JSON.stringify({ jobs, embeddings }), { status: 200 });
+}
@@ -0,0 +1,658 @@
+'use client';
+
+import { useChat } from '@ai-sdk/react';
+import { DefaultChatTransport, isToolUIPart, SourceUrlUIPart, UIMessage } from 'ai';
+import { useState, useEffect, useRef, KeyboardEvent, CSSProperties } from 'react';
+import Image from 'next/image';
+import type { LeadField, PublicTenant } from '@/lib/tenants';
+import { HONEYPOT_FIELD, MAX_MESSAGE_CHARS, MAX_MESSAGES } from '@/lib/limits';
+import type { ContactCtaOutput, QuickRepliesOutput, ServiceCardsOutput } from '@/lib/rich-content/parts';
+import type { HandoffEvent, HandoffMode, HandoffState } from '@/lib/handoff/events';
+import Markdown from './markdown';
+import { ContactCta, QuickReplies, ServiceCards } from './rich-parts';
+import { AnswerFeedback, type Rating } from './answer-feedback';
+import './chat.css';
+
+interface ChatMetadata {
+  createdAt?: string;
+  form?: Record<string, unknown>;
+  formCheck?: { honeypot: string; elapsedMs: number };
+  formRequest?: boolean;
+  // Set by the server on the reply to a form submission.
+  lead?: { status: 'saved' | 'duplicate' | 'invalid' | 'error'; errors?: Record<string, string> };
+  // Set by the server on the bot's notes about a human handoff.
+  handoff?: HandoffMode;
+  // Name of the team member who wrote the message.
+  agent?: string;
+}
+
+// Answers written by the bot can be rated; team members' replies, notes and form replies cannot.
+const isRateable = (message: UIMessage) => {
+  const metadata = message.metadata as ChatMetadata | undefined;
+  return message.role === 'assistant' && !metadata?.agent && !metadata?.handoff && !metadata?.formRequest && !metadata?.lead;
+};
+
+interface ChatMessageWithMeta {
+  id: string;
+  role: 'user' | 'assistant';
+  parts: { type: 'text'; text: string }[];
+  metadata?: ChatMetadata;
+}
+
+type FormValues = Record<string, string | boolean>;
+
+const getSources = (message: UIMessage) =>
+  message.parts.filter((part): part is SourceUrlUIPart => part.type === 'source-url');
+
+// Error responses from /api/chat (429, 413, ...) carry a user-facing `message`.
+const errorMessage = (error: Error) => {
+  try {
+    const data = JSON.parse(error.message) as { message?: string };
+    if (data.message) return data.message;
+  } catch {}
+  return 'Something went wrong. Please try again.';
+};
+
+// Follow-up questions the server suggested after an answer (a `data-suggestions` part).
+const getSuggestions = (message: UIMessage) =>
+  message.parts.flatMap(part => (part.type === 'data-suggestions' ? (part.data as string[]) : []));
+
+// Whether a reply saved a lead, from the contact form or the conversational collectForm flow.
+const savedLead = (message: UIMessage) =>
+  (message.metadata as ChatMetadata | undefined)?.lead?.status === 'saved' ||
+  message.parts.some(part => isToolUIPart(part) && part.type === 'tool-collectForm' && part.state === 'output-available' &&
+    (part.output as { status?: string } | null)?.status === 'saved');
+
+// The conversation state reported by the requestHuman tool, when the assistant asked for a team member.
+const requestedHandoff = (message: UIMessage) => {
+  for (const part of message.parts) {
+    if (isToolUIPart(part) && part.type === 'tool-requestHuman' && part.state === 'output-available') return part.output as HandoffState;
+  }
+};
+
+const BOT_MODE: HandoffState = { mode: 'bot', agentName: null };
+
+// Events for the page hosting the widget (see public/widget.js). They carry no personal data, so any
+// parent may receive them.
+const postToHost = (type: 'close-panel' | 'lead-captured', botId: string) =>
+  window.parent.postMessage({ source: 'chatbot-widget', type, botId }, '*');
+
+const emptyForm = (fields: LeadField[]): FormValues =>
+  Object.fromEntries(fields.map(field => [field.name, field.defaultValue ?? (field.type === 'checkbox' ? false : '')]));
+
+// `embedded` is the panel inside the widget's iframe: it fills the frame, has a close button and reports
+// saved leads to the host page.
+export default function Chat({ tenant, embedded = false }: { tenant: PublicTenant; embedded?: boolean }) {
+  const { fields } = tenant.leadForm;
+  const { assistantName, avatarUrl, primaryColor } = tenant.branding;
+
+  const [input, setInput] = useState<string>('');
+  const [formData, setFormData] = useState<FormValues>(() => emptyForm(fields));
+
+  const [emailError, setEmailError] = useState<string>('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  // Bot checks: people never see the honeypot field, and take a few seconds to fill in the form.
+  const [honeypot, setHoneypot] = useState('');
+  const formOpenedAtRef = useRef(0);
+  const sessionIdRef = useRef<string | null>(null);
+  // While a team member has the conversation (or is about to), messages go to them instead of /api/chat.
+  const [handoff, setHandoff] = useState<HandoffState>(BOT_MODE);
+  const [handoffError, setHandoffError] = useState('');
+  const withTeam = handoff.mode !== 'bot';
+  const [transport] = useState(() => new DefaultChatTransport({
+    api: '/api/chat',
+    body: () => ({ tenantId: tenant.id, sessionId: sessionIdRef.current }),
+    // Long conversations only send their recent history, so requests stay within the API's size limit.
+    prepareSendMessagesRequest: ({ id, messages, body, trigger, messageId }) => ({
+      body: { ...body, id, messages: messages.slice(-MAX_MESSAGES), trigger, messageId },
+    }),
+  }));
+  const { messages, sendMessage, status, setMessages, error } = useChat({
+    transport,
+    // The assistant handed the conversation over with the requestHuman tool.
+    onFinish: ({ message }) => {
+      const requested = requestedHandoff(message);
+      if (requested && requested.mode !== 'bot') setHandoff(requested);
+    },
+  });
+  const loading = status === 'submitted' || status === 'streaming';
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const announcedRef = useRef(new Set<string>());
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Resume the previous conversation for this browser, if the server still has it.
+  useEffect(() => {
+    const storageKey = `chat-session:${tenant.id}`;
+    let sessionId = localStorage.getItem(storageKey);
+    if (!sessionId) {
+      sessionId = crypto.randomUUID();
+      localStorage.setItem(storageKey, sessionId);
+    }
+    sessionIdRef.current = sessionId;
+
+    const params = new URLSearchParams({ tenant: tenant.id, sessionId });
+    fetch(`/api/chat?${params}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then((data: { messages?: UIMessage[]; handoff?: HandoffState | null } | null) => {
+        if (data?.handoff) setHandoff(data.handoff);
+        if (!data?.messages?.length) return;
+        // Leads saved before the reload were announced then.
+        data.messages.forEach(m => announcedRef.current.add(m.id));
+        setMessages(prev => (prev.length > 0 ? prev : data.messages!));
+      })
+      .catch(console.error);
+  }, [tenant.id, setMessages]);
+
+  // Keep the form filled in when the server rejects it; clear it once the lead is stored.
+  const lastLead = (messages.at(-1) as ChatMessageWithMeta | undefined)?.metadata?.lead;
+  useEffect(() => {
+    if (!lastLead) return;
+    if (lastLead.status === 'invalid') {
+      setFieldErrors(lastLead.errors ?? {});
+    } else if (lastLead.status !== 'error') {
+      setFieldErrors({});
+      setFormData(emptyForm(fields));
+    }
+  }, [lastLead, fields]);
+
+  useEffect(() => {
+    const last = messages.at(-1);
+    if (!embedded || status !== 'ready' || last?.role !== 'assistant' || announcedRef.current.has(last.id)) return;
+    announcedRef.current.add(last.id);
+    if (savedLead(last)) postToHost('lead-captured', tenant.id);
+  }, [embedded, status, messages, tenant.id]);
+
+  // Team members' replies and state changes arrive over server-sent events. Every (re)connection replays the
+  // stored replies, which are added by id.
+  useEffect(() => {
+    if (!withTeam || !sessionIdRef.current) return;
+    const params = new URLSearchParams({ tenant: tenant.id, sessionId: sessionIdRef.current });
+    const source = new EventSource(`/api/handoff?${params}`);
+    source.onmessage = e => {
+      const event = JSON.parse(e.data) as HandoffEvent;
+      if (event.type === 'state') setHandoff({ mode: event.mode, agentName: event.agentName });
+      if (event.type === 'message') {
+        setMessages(prev => (prev.some(m => m.id === event.message.id) ? prev : [...prev, event.message]));
+      }
+    };
+    return () => source.close();
+  }, [withTeam, tenant.id, setMessages]);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, loading]);
+
+  useEffect(() => {
+    if (textareaRef.current) {
+      textareaRef.current.style.height = 'auto';
+      textareaRef.current.style.height = `${Math.min(textareaRef.current.scrollHeight, 120)}px`;
+    }
+  }, [input]);
+
+  const formatTime = (dateString?: string): string => {
+    const date = dateString ? new Date(dateString) : new Date();
+    return `${date.getHours()}:${date.getMinutes().toString().padStart(2, '0')}`;
+  };
+
+  // Shown right away; if the team member handed the conversation back meanwhile, the bot answers it instead.
+  const sendToTeam = async (text: string) => {
+    const message: UIMessage = {
+      id: crypto.randomUUID(),
+      role: 'user',
+      parts: [{ type: 'text', text }],
+      metadata: { createdAt: new Date().toISOString() },
+    };
+    setHandoffError('');
+    setMessages(prev => [...prev, message]);
+
+    try {
+      const res = await fetch('/api/handoff/messages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId: tenant.id, sessionId: sessionIdRef.current, id: message.id, text }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 409) {
+        setHandoff(BOT_MODE);
+        setMessages(prev => prev.filter(m => m.id !== message.id));
+        await sendMessage({ text, metadata: { createdAt: new Date().toISOString() } });
+      } else if (!res.ok) {
+        setHandoffError(data.message ?? 'Your message could not be sent. Please try again.');
+      }
+    } catch {
+      setHandoffError('Your message could not be sent. Please try again.');
+    }
+  };
+
+  const send = (text: string) =>
+    withTeam ? sendToTeam(text) : sendMessage({ text, metadata: { createdAt: new Date().toISOString() } });
+
+  const sendChatMessage = async () => {
+    if (!input.trim()) return;
+    await send(input);
+    setInput('');
+  };
+
+  const sendQuickReply = (text: string) => {
+    if (loading) return;
+    send(text);
+  };
+
+  // The visitor's own "Talk to a person" button; the reply carries the assistant's note to show.
+  const requestPerson = async () => {
+    setHandoffError('');
+    try {
+      const res = await fetch('/api/handoff', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId: tenant.id, sessionId: sessionIdRef.current }),
+      });
+      if (!res.ok) throw new Error(await res.text());
+      const data = (await res.json()) as { handoff: HandoffState; message: UIMessage };
+      setMessages(prev => [...prev, data.message]);
+      setHandoff(data.handoff);
+    } catch (e) {
+      console.error(e);
+      setHandoffError('No one from the team could be reached. Please leave your contact details instead.');
+    }
+  };
+
+  const rateAnswer = async (messageId: string, rating: Rating, comment?: string) => {
+    try {
+      const res = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tenantId: tenant.id, sessionId: sessionIdRef.current, messageId, rating, comment }),
+      });
+      return res.ok;
+    } catch {
+      return false;
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      sendChatMessage();
+    }
+  };
+
+  const handleFormChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    const field = fields.find(f => f.name === name);
+
+    if (e.target instanceof HTMLInputElement && e.target.type === "checkbox") {
+      const target = e.target as HTMLInputElement; 
+      setFormData(prev => ({
+        ...prev,
+        [name]: target.checked,
+      }));
+      return;
+    }
+
+    if (field?.sanitize === "letters") {
+      const lettersOnly = value.replace(/[^a-zA-Z\s]/g, "");
+      setFormData(prev => ({ ...prev, [name]: lettersOnly }));
+      return;
+    }
+
+    if (field?.sanitize === "digits") {
+      const numbersOnly = value.replace(/[^0-9]/g, "");
+      setFormData(prev => ({ ...prev, [name]: numbersOnly }));
+      return;
+    }
+
+    if (field?.type === "email") {
+      setFormData(prev => ({ ...prev, [name]: value }));
+      const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+      if (!emailRegex.test(value)) {
+        setEmailError("Invalid email address"); 
+      } else {
+        setEmailError("");
+      }
+      return;
+    }
+    
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const isFormComplete = fields.every(field =>
+    !field.required || (field.type === 'checkbox' ? formData[field.name] === true : String(formData[field.name] ?? '').trim() !== '')
+  );
+
+  const renderField = (field: LeadField) => {
+    const label = field.required ? `${field.label} *` : field.label;
+    const value = String(formData[field.name] ?? '');
+
+    if (field.type === 'select') {
+      return (
+        <select key={field.name} name={field.name} value={value} onChange={handleFormChange}>
+          {field.defaultValue === undefined && <option value="">{label}</option>}
+          {field.options?.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      );
+    }
+
+    if (field.type === 'textarea') {
+      return (
+        <textarea
+          key={field.name}
+          className="full-width"
+          name={field.name}
+          placeholder={label}
+          value={value}
+          onChange={handleFormChange}
+          rows={3}
+        ></textarea>
+      );
+    }
+
+    return (
+      <input
+        key={field.name}
+        type={field.type}
+        name={field.name}
+        placeholder={label}
+        value={value}
+        onChange={handleFormChange}
+        required={field.required}
+      />
+    );
+  };
+
+  // The reply reports whether the lead was stored; see the `lastLead` effect above.
+  const submitForm = async () => {
+    if (!isFormComplete || loading) return;
+
+    await sendMessage({
+      text: `Customer Follow-Up Form submitted`,
+      metadata: {
+        createdAt: new Date().toISOString(),
+        form: formData,
+        formCheck: { honeypot, elapsedMs: Date.now() - formOpenedAtRef.current },
+      },
+    });
+  };
+
+  
+  const requestForm = () => {
+    const fakeAssistantMessage: ChatMessageWithMeta = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      parts: [{ type: 'text', text: "Sure! Please fill in your contact details below 👇" }],
+      metadata: { createdAt: new Date().toISOString(), formRequest: true },
+    };
+
+    formOpenedAtRef.current = Date.now();
+    setMessages((prev) => [...prev, fakeAssistantMessage]); 
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  return (
+    <div className={`chat-container${embedded ? ' embedded' : ''}`} style={{ '--accent-color': primaryColor } as CSSProperties}>
+      {/* Header */}
+      <div className="chat-header">
+        <div className="header-content">
+          <Image
+            src={avatarUrl}
+            alt={assistantName}
+            className="avatar"
+            width={40}
+            height={40}
+          />
+          <div className="header-text">
+            <div className="assistant-name">{assistantName}</div>
+            <div className="status">
+              {handoff.mode === 'waiting' ? 'Waiting for a team member…'
+                : handoff.mode === 'human' ? `${handoff.agentName} from our team`
+                : status === 'streaming' ? 'Typing...' : 'Online'}
+            </div>
+          </div>
+        </div>
+        {embedded && (
+          <button className="header-close" onClick={() => postToHost('close-panel', tenant.id)} aria-label="Close chat">
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
+              <path fillRule="evenodd" d="M5.47 5.47a.75.75 0 011.06 0L12 10.94l5.47-5.47a.75.75 0 111.06 1.06L13.06 12l5.47 5.47a.75.75 0 11-1.06 1.06L12 13.06l-5.47 5.47a.75.75 0 01-1.06-1.06L10.94 12 5.47 6.53a.75.75 0 010-1.06z" clipRule="evenodd" />
+            </svg>
+          </button>
+        )}
+      </div>
+
+      {withTeam && (
+        <div className={`handoff-banner ${handoff.mode}`} role="status">
+          {handoff.mode === 'waiting'
+            ? 'A member of our team will join this chat shortly.'
+            : `You're chatting with ${handoff.agentName}, a member of our team.`}
+        </div>
+      )}
+
+      {/* Messages */}
+      <div className="chat-messages">
+        {messages.length === 0 && (
+          <div className="welcome-message">
+            <div className="welcome-avatar">
+              <Image
+                src={avatarUrl}
+                alt={assistantName}
+                width={40}
+                height={40}
+              />
+            </div>
+            <div className="welcome-text">
+              <h3>Hello! I&apos;m {assistantName}</h3>
+              <p>{tenant.greeting}</p>
+            </div>
+            {tenant.starterPrompts && tenant.starterPrompts.length > 0 && (
+              <QuickReplies replies={tenant.starterPrompts} disabled={loading} onSelect={sendQuickReply} />
+            )}
+          </div>
+        )}
+        
+        {messages.map((message) => (
+          <div
+            key={message.id}
+            className={`message-row ${message.role === 'user' ? 'user' : 'assistant'}`}
+          >
+            {message.role === 'assistant' && (
+              <Image
+                src={avatarUrl}
+                alt={assistantName}
+                className="message-avatar"
+                width={32}
+                height={32}
+              />
+            )}
+
+            <div className={`message-bubble ${message.role === 'user' ? 'user' : 'assistant'}`}>
+              {(message as ChatMessageWithMeta).metadata?.agent && (
+                <div className="message-agent">{(message as ChatMessageWithMeta).metadata?.agent} · Team</div>
+              )}
+              {/* Text (Markdown for the assistant) and rich parts, in the order they were sent */}
+              {message.parts.map((part, i) => {
+                const key = `${message.id}-${i}`;
+                if (part.type === 'text') {
+                  return message.role === 'assistant'
+                    ? <Markdown key={key} text={part.text} />
+                    : <div key={key}>{part.text}</div>;
+                }
+                if (!isToolUIPart(part) || part.state !== 'output-available') return null;
+                if (part.type === 'tool-showServiceCards') {
+                  return <ServiceCards key={key} {...(part.output as ServiceCardsOutput)} />;
+                }
+                // Quick replies answer the latest question only.
+                if (part.type === 'tool-showQuickReplies' && message.id === messages.at(-1)?.id) {
+                  return <QuickReplies key={key} {...(part.output as QuickRepliesOutput)} disabled={loading} onSelect={sendQuickReply} />;
+                }
+                if (part.type === 'tool-offerContactForm') {
+                  return <ContactCta key={key} {...(part.output as ContactCtaOutput)} onOpen={requestForm} />;
+                }
+                return null;
+              })}
+
+              {/* Sources cited by the answer */}
+              {message.role === 'assistant' && getSources(message).length > 0 && (
+                <div className="message-sources">
+                  <div className="sources-label">Sources</div>
+                  <div className="source-chips">
+                    {getSources(message).map((source) => (
+                      <a
+                        key={`${message.id}-source-${source.sourceId}`}
+                        className="source-chip"
+                        href={source.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        title={source.url}
+                      >
+                        [{source.sourceId}] {source.title ?? source.url}
+                      </a>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Suggested follow-up questions, for the latest answer only */}
+              {message.id === messages.at(-1)?.id && !loading && getSuggestions(message).length > 0 && (
+                <div className="follow-ups">
+                  <div className="sources-label">You could ask</div>
+                  <QuickReplies replies={getSuggestions(message)} onSelect={sendQuickReply} />
+                </div>
+              )}
+
+              {/* Inline Form inside assistant bubble */}
+              {(message as ChatMessageWithMeta).metadata?.formRequest && (
+                <div className="inline-contact-form">
+                  <h4>Contact Information</h4>
+
+                  <div className="form-grid">
+                    {fields.filter(field => field.type !== 'checkbox').map(renderField)}
+                  </div>
+
+                  <input
+                    className="form-honeypot"
+                    type="text"
+                    name={HONEYPOT_FIELD}
+                    value={honeypot}
+                    onChange={e => setHoneypot(e.target.value)}
+                    tabIndex={-1}
+                    autoComplete="off"
+                    aria-hidden="true"
+                  />
+
+                  {emailError && <p style={{ color: 'red', fontSize: '0.8rem' }}>{emailError}</p>}
+                  {Object.entries(fieldErrors).map(([name, error]) => (
+                    <p key={name} style={{ color: 'red', fontSize: '0.8rem' }}>{error}</p>
+                  ))}
+
+                  <div className="checkbox-group">
+                    {fields.filter(field => field.type === 'checkbox').map(field => (
+                      <label key={field.name} className="checkbox-label">
+                        <input
+                          type="checkbox"
+                          name={field.name}
+                          checked={formData[field.name] === true}
+                          onChange={handleFormChange}
+                        />
+                        <span className="checkmark"></span>
+                        {field.required ? `${field.label} *` : field.label}
+                      </label>
+                    ))}
+                  </div>
+
+                  <div className="form-actions">
+                    <button
+                      className="submit-button"
+                      onClick={submitForm}
+                      disabled={!isFormComplete || loading}
+                    >
+                      Submit
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {isRateable(message) && !(loading && message.id === messages.at(-1)?.id) && (
+                <AnswerFeedback onRate={(rating, comment) => rateAnswer(message.id, rating, comment)} />
+              )}
+
+              <div className="message-time">
+                {formatTime((message as ChatMessageWithMeta).metadata?.createdAt)}
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {loading && (
+          <div className="message-row assistant">
+            <Image
+              src={avatarUrl}
+              alt={assistantName}
+              className="message-avatar"
+              width={32}
+              height={32}
+            />
+            <div className="message-bubble assistant">
+              <div className="loading-dots">
+                <span className="dot"></span>
+                <span className="dot"></span>
+                <span className="dot"></span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {error && !loading && (
+          <div className="chat-error" role="alert">{errorMessage(error)}</div>
+        )}
+
+        {handoffError && <div className="chat-error" role="alert">{handoffError}</div>}
+
+        <div ref={messagesEndRef} />
+      </div>
+
+      {/* Chat input */}
+      <div className="chat-input-container">
+        <div className="input-wrapper">
+          <textarea
+            ref={textareaRef}
+            className="chat-textarea"
+            value={input}
+            placeholder="Type a message..."
+            onChange={(e) => setInput(e.currentTarget.value)}
+            onKeyDown={handleKeyDown}
+            maxLength={MAX_MESSAGE_CHARS}
+            rows={1}
+          />
+          <button 
+            className="send-button" 
+            onClick={sendChatMessage}
+            disabled={!input.trim()}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M3.478 2.405a.75.75 0 00-.926.94l2.432 7.905H13.5a.75.75 0 010 1.5H4.984l-2.432 7.905a.75.75 0 00.926.94 60.519 60.519 0 0018.445-8.986.75.75 0 000-1.218A60.517 60.517 0 003.478 2.405z" />
+            </svg>
+          </button>
+        </div>
+        <div className="input-actions">
+          <button className="form-button" onClick={requestForm}>
+            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
+              <path fillRule="evenodd" d="M7.5 6a4.5 4.5 0 119 0 4.5 4.5 0 01-9 0zM3.751 20.105a8.25 8.25 0 0116.498 0 .75.75 0 01-.437.695A18.683 18.683 0 0112 22.5c-2.786 0-5.433-.608-7.812-1.7a.75.75 0 01-.437-.695z" clipRule="evenodd" />
+            </svg>
+            Provide Contact Info
+          </button>
+          {tenant.humanHandoff && !withTeam && (
+            <button className="form-button secondary" onClick={requestPerson} disabled={loading}>
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
+                <path fillRule="evenodd" d="M4.848 2.771A49.144 49.144 0 0112 2.25c2.43 0 4.817.178 7.152.52 1.978.292 3.348 2.024 3.348 3.97v6.02c0 1.946-1.37 3.678-3.348 3.97a48.901 48.901 0 01-3.476.383.39.39 0 00-.297.17l-2.755 4.133a.75.75 0 01-1.248 0l-2.755-4.133a.39.39 0 00-.297-.17 48.9 48.9 0 01-3.476-.384c-1.978-.29-3.348-2.024-3.348-3.97V6.741c0-1.946 1.37-3.68 3.348-3.97z" clipRule="evenodd" />
+              </svg>
+              Talk to a person
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { notFound } from 'next/navigation';
+import Chat from '../chat';
+import { getTenant, toPublicTenant } from '@/lib/tenants';
+
+type EmbedParams = { tenant?: string; color?: string; greeting?: string };
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const MAX_GREETING = 300;
+
+// -------- Widget panel --------
+// Loaded in the iframe injected by public/widget.js. `color` and `greeting` come from the script's data
+// attributes and override the tenant's branding for that site.
+export default async function EmbedPage({ searchParams }: { searchParams: Promise<EmbedParams> }) {
+  const { tenant: tenantId, color, greeting } = await searchParams;
+  const tenant = tenantId ? getTenant(tenantId) : null;
+  if (!tenant) notFound();
+
+  const base = toPublicTenant(tenant);
+  return (
+    <Chat
+      embedded
+      tenant={{
+        ...base,
+        greeting: greeting?.trim().slice(0, MAX_GREETING) || base.greeting,
+        branding: { ...base.branding, primaryColor: color && HEX_COLOR.test(color) ? color : base.branding.primaryColor },
+      }}
+    />
+  );
+}
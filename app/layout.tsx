@@ -1,6 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { getDefaultTenant } from "@/lib/tenants";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -12,9 +13,11 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
+const { name, branding } = getDefaultTenant();
+
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: `${branding.assistantName} | ${name}`,
+  description: `Ask ${name}'s assistant about its services, or leave your details to be contacted.`,
 };
 
 export default function RootLayout({
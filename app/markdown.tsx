@@ -0,0 +1,28 @@
+import ReactMarkdown, { type Components } from 'react-markdown';
+import rehypeSanitize from 'rehype-sanitize';
+import remarkBreaks from 'remark-breaks';
+import remarkGfm from 'remark-gfm';
+
+// Links open in a new tab, and tables scroll inside the bubble instead of widening it.
+const components: Components = {
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>
+  ),
+  table: ({ children }) => (
+    <div className="markdown-table"><table>{children}</table></div>
+  ),
+};
+
+// -------- Markdown --------
+// GitHub-flavoured Markdown for assistant messages. Raw HTML is never rendered, and the sanitizer strips
+// anything outside GitHub's allow-list (javascript: links, event handlers, ...). Single line breaks are kept,
+// as chat answers use them for lists.
+export default function Markdown({ text }: { text: string }) {
+  return (
+    <div className="markdown">
+      <ReactMarkdown remarkPlugins={[remarkGfm, remarkBreaks]} rehypePlugins={[rehypeSanitize]} components={components}>
+        {text}
+      </ReactMarkdown>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import type { ContactCtaOutput, QuickRepliesOutput, ServiceCardsOutput } from '@/lib/rich-content/parts';
+
+// -------- Rich message parts --------
+// Renderers for the outputs of the rich content tools (lib/rich-content/tools.ts).
+
+export function ServiceCards({ cards }: ServiceCardsOutput) {
+  return (
+    <div className="service-cards">
+      {cards.map(card => (
+        <div key={card.title} className="service-card">
+          <div className="service-card-title">{card.title}</div>
+          <p>{card.description}</p>
+          {card.url && (
+            <a href={card.url} target="_blank" rel="noopener noreferrer">Learn more</a>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function QuickReplies({ replies, disabled, onSelect }: QuickRepliesOutput & {
+  disabled?: boolean;
+  onSelect: (reply: string) => void;
+}) {
+  return (
+    <div className="quick-replies">
+      {replies.map(reply => (
+        <button key={reply} className="quick-reply" onClick={() => onSelect(reply)} disabled={disabled}>
+          {reply}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function ContactCta({ label, onOpen }: ContactCtaOutput & { onOpen: () => void }) {
+  return (
+    <button className="contact-cta" onClick={onOpen}>{label}</button>
+  );
+}
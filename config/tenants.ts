@@ -0,0 +1,79 @@
+import type { LeadField, TenantConfig } from '@/lib/tenants';
+
+// Lead form shown by the "Provide Contact Info" button. Tenants can replace it with their own fields.
+const defaultLeadFields: LeadField[] = [
+  { name: 'fullName', label: 'Full Name', type: 'text', required: true, sanitize: 'letters' },
+  { name: 'email', label: 'Email Address', type: 'email', required: true },
+  { name: 'phone', label: 'Phone Number', type: 'tel', sanitize: 'digits', ask: true },
+  { name: 'company', label: 'Company Name', type: 'text' },
+  {
+    name: 'inquiryType',
+    label: 'Select Inquiry Type',
+    type: 'select',
+    ask: true,
+    options: [
+      { value: 'support', label: 'Support' },
+      { value: 'sales', label: 'Sales' },
+      { value: 'general', label: 'General' },
+    ],
+  },
+  { name: 'message', label: 'Message', type: 'textarea', ask: true },
+  {
+    name: 'contactMethod',
+    label: 'Preferred Contact Method',
+    type: 'select',
+    options: [
+      { value: 'email', label: 'Email' },
+      { value: 'phone', label: 'Phone' },
+    ],
+  },
+  {
+    name: 'bestTime',
+    label: 'Best Time to Contact',
+    type: 'select',
+    defaultValue: 'Any time',
+    options: [
+      { value: 'Any time', label: 'Any time' },
+      { value: 'Morning', label: 'Morning' },
+      { value: 'Afternoon', label: 'Afternoon' },
+      { value: 'Evening', label: 'Evening' },
+    ],
+  },
+  { name: 'agree', label: 'I agree to be contacted', type: 'checkbox', required: true, defaultValue: false },
+  { name: 'newsletter', label: "I'd like to receive news and offers", type: 'checkbox', defaultValue: false },
+];
+
+// -------- Bot definitions --------
+// One entry per website served by this deployment. The first entry is the default tenant.
+export const tenants: TenantConfig[] = [
+  {
+    id: 'swarise',
+    name: 'Swarise',
+    siteUrl: 'https://swarise.com/',
+    hosts: ['swarise.com', 'www.swarise.com'],
+    allowedOrigins: ['https://www.swarise.com'],
+    branding: {
+      assistantName: 'Swarise Assistant',
+      avatarUrl: 'https://swarise.com/wp-content/uploads/2025/05/favicon.png',
+      primaryColor: '#3858ca',
+    },
+    persona: 'You are a professional content assistant.',
+    greeting: 'How can I help you today?',
+    starterPrompts: ['What services do you offer?', 'Do you build mobile apps?', 'How can I get a quote?'],
+    humanHandoff: true,
+    refusal: 'I can only provide information about Swarise and its services.',
+    cannedAnswers: [
+      { when: 'hi or hello', answer: 'Hello! How can I assist you with Swarise today?' },
+      { when: 'who are you', answer: 'I am a virtual assistant for Swarise, here to help you with information about our services.' },
+      { when: 'what can you do', answer: 'I can provide information.' },
+      { when: 'for the location of Swarise', answer: 'Velacherry, Chennai', match: ['where are you located', 'your address', 'your location', 'office address'] },
+      { when: 'for the email or contact of Swarise', answer: 'info@swarise.com', match: ['your email', 'email address of Swarise', 'Swarise email'] },
+      { when: 'for the phone number of Swarise', answer: '+919841556667', match: ['your phone number', 'your contact number', 'Swarise phone number'] },
+    ],
+    forbiddenTopics: {
+      topics: ['Wealth Management', 'Investment Planning', 'Retirement Planning'],
+      reply: 'Sorry, I cannot provide details on that topic. Can I help you with something else?',
+    },
+    leadForm: { fields: defaultLeadFields },
+  },
+];
@@ -0,0 +1,43 @@
+import type { NextRequest } from 'next/server';
+import { createRateLimiter } from './rate-limit';
+import { MIN_FORM_FILL_MS } from './limits';
+
+const envLimit = (name: string, fallback: number) => Number(process.env[name] ?? fallback);
+
+// -------- Chat limits --------
+// Chat requests per IP and per session per minute.
+export const chatIpLimiter = createRateLimiter('chat-ip', envLimit('CHAT_RATE_LIMIT_PER_IP', 30), 60_000);
+export const chatSessionLimiter = createRateLimiter('chat-session', envLimit('CHAT_RATE_LIMIT_PER_SESSION', 20), 60_000);
+// Lead submissions per IP per hour, for both the form and the conversational flow.
+export const leadIpLimiter = createRateLimiter('lead-ip', envLimit('LEAD_RATE_LIMIT_PER_HOUR', 5), 3_600_000);
+
+// Proxies in front of the app that append to x-forwarded-for (Vercel and most load balancers: 1).
+const TRUSTED_PROXY_HOPS = Math.max(1, envLimit('TRUSTED_PROXY_HOPS', 1));
+
+// The address seen by the outermost trusted proxy. Clients can put anything at the start of
+// x-forwarded-for, so entries are counted from the end, where the proxies appended them; x-real-ip is the
+// fallback when the header is missing or shorter than expected.
+export function clientIp(req: NextRequest) {
+  const forwarded = req.headers.get('x-forwarded-for')?.split(',').map(ip => ip.trim()).filter(Boolean) ?? [];
+  return forwarded[forwarded.length - TRUSTED_PROXY_HOPS] || req.headers.get('x-real-ip') || 'unknown';
+}
+
+// Bots fill the hidden honeypot field or submit faster than a person can type.
+export function isBotSubmission(check?: { honeypot?: unknown; elapsedMs?: unknown }) {
+  if (!check) return true;
+  if (typeof check.honeypot === 'string' && check.honeypot !== '') return true;
+  return typeof check.elapsedMs !== 'number' || check.elapsedMs < MIN_FORM_FILL_MS;
+}
+
+// -------- Responses --------
+export function tooManyRequests(retryAfterMs: number) {
+  const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  return new Response(
+    JSON.stringify({ error: 'rate_limited', message: 'Too many requests. Please wait a moment and try again.', retryAfter }),
+    { status: 429, headers: { 'Retry-After': String(retryAfter) } },
+  );
+}
+
+export function payloadTooLarge(message: string) {
+  return new Response(JSON.stringify({ error: 'payload_too_large', message }), { status: 413 });
+}
@@ -0,0 +1,63 @@
+import { supabase } from '../supabase';
+import type { Policy } from '../policy/rules';
+
+// How a turn was answered: by the model ('refused' when it gave the site's refusal), from the answer cache or
+// a curated FAQ answer, by a guardrail (see PolicyDecision), as a lead form submission, or relayed to a team member.
+export type ChatOutcome =
+  | 'answered' | 'cached' | 'faq' | 'canned' | 'refused' | 'off_topic' | 'forbidden' | 'lead_form' | 'handoff' | 'error';
+
+export type ChatEvent = {
+  tenantId: string;
+  conversationId: string | null;
+  // Null when the message held contact details rather than a question.
+  query: string | null;
+  outcome: ChatOutcome;
+  topSimilarity: number | null;
+  retrievedCount: number;
+  latencyMs: number;
+  firstTokenMs?: number | null;
+  inputTokens?: number | null;
+  outputTokens?: number | null;
+  leadCaptured: boolean;
+  promptVersion?: string | null;
+  tools?: string[];
+};
+
+// CHAT_ANALYTICS=off stops recording turns.
+export const analyticsEnabled = process.env.CHAT_ANALYTICS !== 'off';
+
+const MAX_QUERY_CHARS = 500;
+
+// -------- Recording --------
+// Stores one turn. Failures are logged, never passed on: analytics must not break a chat.
+export async function recordChatEvent(event: ChatEvent) {
+  if (!analyticsEnabled) return;
+
+  const { error } = await supabase.from('chat_events').insert([{
+    tenant_id: event.tenantId,
+    conversation_id: event.conversationId,
+    query: event.query?.slice(0, MAX_QUERY_CHARS) ?? null,
+    outcome: event.outcome,
+    top_similarity: event.topSimilarity,
+    retrieved_count: event.retrievedCount,
+    latency_ms: Math.round(event.latencyMs),
+    first_token_ms: event.firstTokenMs ?? null,
+    input_tokens: event.inputTokens ?? null,
+    output_tokens: event.outputTokens ?? null,
+    lead_captured: event.leadCaptured,
+    prompt_version: event.promptVersion ?? null,
+    tools: event.tools ?? [],
+  }]);
+  if (error) console.error('Chat event error:', error);
+}
+
+// Whether a generated answer is one of the site's refusals: the general one, e.g. "I can only provide
+// information about ...", or the forbidden-topic reply, which the output filter also puts in place of an answer.
+export function isRefusal(answer: string, policy: Policy) {
+  const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  const text = normalize(answer);
+  return [policy.refusal, policy.forbidden.reply].some(refusal => {
+    const expected = normalize(refusal);
+    return expected !== '' && text.includes(expected);
+  });
+}
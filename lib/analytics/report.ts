@@ -0,0 +1,188 @@
+import { supabase } from '../supabase';
+import type { ChatOutcome } from './events';
+
+export type ChatEventRow = {
+  conversation_id: string | null;
+  created_at: string;
+  query: string | null;
+  outcome: ChatOutcome;
+  top_similarity: number | null;
+  latency_ms: number;
+  first_token_ms: number | null;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  lead_captured: boolean;
+};
+
+export type ReportFilters = {
+  tenantId?: string;
+  // Inclusive dates, YYYY-MM-DD.
+  from: string;
+  to: string;
+};
+
+export type QuestionStat = {
+  // The latest wording of the question.
+  question: string;
+  count: number;
+  lastAskedAt: string;
+  // Best retrieval similarity any asking of it got; null when nothing was ever found.
+  bestSimilarity: number | null;
+};
+
+export type DailyStat = {
+  date: string;
+  turns: number;
+  refusals: number;
+  // The funnel of conversations that started that day.
+  conversations: number;
+  answered: number;
+  leads: number;
+};
+
+// Questions answered from retrieved chunks no closer than this count as content gaps.
+const GAP_SIMILARITY = Number(process.env.ANALYTICS_GAP_SIMILARITY ?? 0.6);
+// The report reads at most this many turns; narrow the date range beyond that.
+const MAX_REPORT_EVENTS = 50_000;
+const DEFAULT_RANGE_DAYS = 30;
+
+const EVENT_COLUMNS =
+  'conversation_id, created_at, query, outcome, top_similarity, latency_ms, first_token_ms, input_tokens, output_tokens, lead_captured';
+
+const dateOnly = (date: Date) => date.toISOString().slice(0, 10);
+
+function nextDay(date: string) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString();
+}
+
+// -------- Events --------
+export async function loadChatEvents(filters: ReportFilters) {
+  const events: ChatEventRow[] = [];
+  for (let from = 0; from < MAX_REPORT_EVENTS; from += 1000) {
+    let query = supabase
+      .from('chat_events')
+      .select(EVENT_COLUMNS)
+      .gte('created_at', `${filters.from}T00:00:00Z`)
+      .lt('created_at', nextDay(filters.to));
+    if (filters.tenantId) query = query.eq('tenant_id', filters.tenantId);
+    const { data, error } = await query.order('created_at', { ascending: true }).range(from, from + 999);
+    if (error) throw error;
+    events.push(...((data ?? []) as ChatEventRow[]));
+    if (!data || data.length < 1000) return { events, truncated: false };
+  }
+  return { events, truncated: true };
+}
+
+// Reads the report's filters from the query string; the range defaults to the last 30 days.
+export function parseReportFilters(params: Record<string, string | string[] | undefined>): ReportFilters {
+  const get = (key: string) => {
+    const value = params[key];
+    return (Array.isArray(value) ? value[0] : value) || undefined;
+  };
+  const date = (key: string) => {
+    const value = get(key);
+    return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+  };
+  const to = date('to') ?? dateOnly(new Date());
+  const from = date('from') ?? dateOnly(new Date(Date.parse(`${to}T00:00:00Z`) - (DEFAULT_RANGE_DAYS - 1) * 86_400_000));
+  return { tenantId: get('tenant'), from, to };
+}
+
+// -------- Report --------
+// Questions are grouped by their words, ignoring case and punctuation.
+const normalizeQuestion = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const isRefusalOutcome = (outcome: ChatOutcome) => outcome === 'refused' || outcome === 'off_topic' || outcome === 'forbidden';
+const isAnswerOutcome = (outcome: ChatOutcome) =>
+  outcome === 'answered' || outcome === 'cached' || outcome === 'faq' || outcome === 'canned';
+
+function rankQuestions(events: ChatEventRow[], limit: number): QuestionStat[] {
+  const groups = new Map<string, QuestionStat>();
+  for (const event of events) {
+    const key = event.query ? normalizeQuestion(event.query) : '';
+    if (!key) continue;
+    const group = groups.get(key) ?? { question: event.query!, count: 0, lastAskedAt: event.created_at, bestSimilarity: null };
+    group.count++;
+    if (event.created_at >= group.lastAskedAt) {
+      group.question = event.query!;
+      group.lastAskedAt = event.created_at;
+    }
+    if (event.top_similarity !== null) group.bestSimilarity = Math.max(group.bestSimilarity ?? 0, event.top_similarity);
+    groups.set(key, group);
+  }
+  return [...groups.values()]
+    .sort((a, b) => b.count - a.count || b.lastAskedAt.localeCompare(a.lastAskedAt))
+    .slice(0, limit);
+}
+
+function percentile(values: number[], p: number) {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+const rate = (count: number, total: number) => (total > 0 ? count / total : null);
+
+// Aggregates turns (oldest first, as loaded) into totals, a daily conversation funnel, the most asked
+// questions and content gaps: questions the model had to answer or refuse without a close match in the index.
+export function buildChatReport(events: ChatEventRow[], { gapSimilarity = GAP_SIMILARITY, limit = 20 } = {}) {
+  // Turns without a stored conversation count as conversations of their own.
+  const conversations = new Map<string, { startedOn: string; answered: boolean; lead: boolean }>();
+  const days = new Map<string, DailyStat>();
+  const day = (date: string) => {
+    const stat = days.get(date) ?? { date, turns: 0, refusals: 0, conversations: 0, answered: 0, leads: 0 };
+    days.set(date, stat);
+    return stat;
+  };
+
+  events.forEach((event, i) => {
+    const date = event.created_at.slice(0, 10);
+    const stat = day(date);
+    stat.turns++;
+    if (isRefusalOutcome(event.outcome)) stat.refusals++;
+
+    const key = event.conversation_id ?? `turn:${i}`;
+    const conversation = conversations.get(key) ?? { startedOn: date, answered: false, lead: false };
+    conversation.answered ||= isAnswerOutcome(event.outcome);
+    conversation.lead ||= event.lead_captured;
+    conversations.set(key, conversation);
+  });
+
+  for (const conversation of conversations.values()) {
+    const stat = day(conversation.startedOn);
+    stat.conversations++;
+    if (conversation.answered) stat.answered++;
+    if (conversation.lead) stat.leads++;
+  }
+
+  const count = (predicate: (event: ChatEventRow) => boolean) => events.filter(predicate).length;
+  const leads = [...conversations.values()].filter(c => c.lead).length;
+  const gaps = events.filter(event =>
+    (event.outcome === 'answered' || event.outcome === 'refused') &&
+    (event.top_similarity === null || event.top_similarity < gapSimilarity));
+
+  return {
+    totals: {
+      turns: events.length,
+      conversations: conversations.size,
+      leads,
+      leadConversion: rate(leads, conversations.size),
+      refusalRate: rate(count(e => isRefusalOutcome(e.outcome)), events.length),
+      cannedRate: rate(count(e => e.outcome === 'canned'), events.length),
+      cacheRate: rate(count(e => e.outcome === 'cached'), events.length),
+      errorRate: rate(count(e => e.outcome === 'error'), events.length),
+      averageLatencyMs: average(events.map(e => e.latency_ms)),
+      p95LatencyMs: percentile(events.map(e => e.latency_ms), 0.95),
+      averageFirstTokenMs: average(events.flatMap(e => (e.first_token_ms === null ? [] : [e.first_token_ms]))),
+      inputTokens: events.reduce((sum, e) => sum + (e.input_tokens ?? 0), 0),
+      outputTokens: events.reduce((sum, e) => sum + (e.output_tokens ?? 0), 0),
+    },
+    daily: [...days.values()].sort((a, b) => a.date.localeCompare(b.date)),
+    topQuestions: rankQuestions(events, limit),
+    contentGaps: rankQuestions(gaps, limit),
+    gapSimilarity,
+  };
+}
@@ -0,0 +1,35 @@
+import type { NextRequest } from 'next/server';
+
+// Constant-time comparison that also runs in the edge runtime (middleware), where node:crypto is unavailable.
+function safeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+// -------- Admin auth --------
+// Admin APIs expect `Authorization: Bearer <ADMIN_API_KEY>`. Without the variable set they stay locked.
+export function isAdminRequest(req: NextRequest) {
+  const { ADMIN_API_KEY } = process.env;
+  if (!ADMIN_API_KEY) return false;
+  return safeEqual(req.headers.get('authorization') ?? '', `Bearer ${ADMIN_API_KEY}`);
+}
+
+// Admin pages under /admin use HTTP basic auth: user ADMIN_USERNAME (default "admin"), password ADMIN_API_KEY.
+export function isAdminBasicAuth(authorization: string | null) {
+  const { ADMIN_API_KEY, ADMIN_USERNAME = 'admin' } = process.env;
+  if (!ADMIN_API_KEY || !authorization?.startsWith('Basic ')) return false;
+
+  let credentials: string;
+  try {
+    credentials = atob(authorization.slice('Basic '.length));
+  } catch {
+    return false;
+  }
+  return safeEqual(credentials, `${ADMIN_USERNAME}:${ADMIN_API_KEY}`);
+}
+
+export function unauthorized() {
+  return new Response(JSON.stringify({ error: 'Unauthorized' }), { status: 401 });
+}
@@ -0,0 +1,75 @@
+import type { CitedSource } from '../citations';
+import { cosineSimilarity } from '../embeddings';
+import { defaultVectorStore } from '../retrieval/store';
+import { defaultCache, recordLookup } from './store';
+
+export type CachedAnswer = {
+  question: string;
+  embedding: number[];
+  text: string;
+  sources: CitedSource[];
+  suggestions?: string[];
+  createdAt: string;
+};
+
+// ANSWER_CACHE=off disables it; ANSWER_CACHE_SIMILARITY is the cosine similarity above which two questions
+// count as the same.
+export const answerCacheEnabled = process.env.ANSWER_CACHE !== 'off';
+const ANSWER_TTL_MS = Number(process.env.ANSWER_CACHE_TTL_SECONDS ?? 3600) * 1000;
+const ANSWER_SIMILARITY = Number(process.env.ANSWER_CACHE_SIMILARITY ?? 0.95);
+// How long a tenant's index version is trusted before the vector store is asked again.
+const INDEX_VERSION_TTL_MS = 60_000;
+
+// -------- Index version --------
+// Answers are cached per index version, so anything cached before a re-index changed the corpus is ignored,
+// in every server instance, within INDEX_VERSION_TTL_MS.
+export async function currentIndexVersion(tenantId: string, store = defaultVectorStore, cache = defaultCache) {
+  const cached = await cache.get<string>(`index-version:${tenantId}`, 'current');
+  if (cached !== undefined) return cached;
+
+  const version = await store.indexVersion(tenantId);
+  await cache.set(`index-version:${tenantId}`, 'current', version, INDEX_VERSION_TTL_MS);
+  return version;
+}
+
+const answersNamespace = (tenantId: string, indexVersion: string, promptVersion: string) =>
+  `answers:${tenantId}:${indexVersion}:${promptVersion}`;
+
+// -------- Semantic answer cache --------
+// The closest cached answer to a near-duplicate question asked against the same index and prompt version.
+export async function findCachedAnswer(
+  tenantId: string,
+  indexVersion: string,
+  promptVersion: string,
+  embedding: number[],
+  cache = defaultCache,
+) {
+  const answers = await cache.values<CachedAnswer>(answersNamespace(tenantId, indexVersion, promptVersion));
+  let best: CachedAnswer | undefined;
+  let bestSimilarity = ANSWER_SIMILARITY;
+  for (const answer of answers) {
+    const similarity = cosineSimilarity(embedding, answer.embedding);
+    if (similarity >= bestSimilarity) {
+      best = answer;
+      bestSimilarity = similarity;
+    }
+  }
+  recordLookup('answers', best !== undefined);
+  return best;
+}
+
+export async function cacheAnswer(
+  tenantId: string,
+  indexVersion: string,
+  promptVersion: string,
+  answer: CachedAnswer,
+  cache = defaultCache,
+) {
+  const key = answer.question.trim().replace(/\s+/g, ' ').toLowerCase();
+  await cache.set(answersNamespace(tenantId, indexVersion, promptVersion), key, answer, ANSWER_TTL_MS);
+}
+
+// Drops the tenant's cached answers and index version right away, e.g. after a re-index in this process.
+export async function invalidateAnswers(tenantId: string, cache = defaultCache) {
+  await Promise.all([cache.clear(`answers:${tenantId}:`), cache.clear(`index-version:${tenantId}`)]);
+}
@@ -0,0 +1,71 @@
+// -------- Stores --------
+// A cache store keeps values with a time to live, grouped in namespaces so related entries can be scanned
+// (the semantic answer cache compares against every cached question) or dropped together. The in-memory
+// store is per server instance; another backend only has to implement the same four methods.
+export type CacheStore = {
+  get<T>(namespace: string, key: string): Promise<T | undefined>;
+  set<T>(namespace: string, key: string, value: T, ttlMs: number): Promise<void>;
+  values<T>(namespace: string): Promise<T[]>;
+  // Drops every namespace starting with the prefix.
+  clear(namespacePrefix: string): Promise<void>;
+};
+
+// Least recently used entries are evicted once a namespace holds `maxEntries`.
+export function createMemoryCache(maxEntries = 1000): CacheStore {
+  const namespaces = new Map<string, Map<string, { value: unknown; expiresAt: number }>>();
+
+  const live = (namespace: string) => {
+    const entries = namespaces.get(namespace);
+    if (!entries) return undefined;
+    const now = Date.now();
+    for (const [key, entry] of entries) if (entry.expiresAt <= now) entries.delete(key);
+    return entries;
+  };
+
+  return {
+    async get<T>(namespace: string, key: string) {
+      const entries = namespaces.get(namespace);
+      const entry = entries?.get(key);
+      if (!entries || !entry) return undefined;
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+      entries.set(key, entry);
+      return entry.value as T;
+    },
+    async set(namespace, key, value, ttlMs) {
+      const entries = live(namespace) ?? new Map();
+      namespaces.set(namespace, entries);
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value as string);
+    },
+    async values<T>(namespace: string) {
+      return [...(live(namespace)?.values() ?? [])].map(entry => entry.value as T);
+    },
+    async clear(namespacePrefix) {
+      for (const namespace of namespaces.keys()) {
+        if (namespace.startsWith(namespacePrefix)) namespaces.delete(namespace);
+      }
+    },
+  };
+}
+
+export const defaultCache: CacheStore = createMemoryCache(Number(process.env.CACHE_MAX_ENTRIES ?? 1000));
+
+// -------- Hit rate --------
+// Lookups per cache since the server started, reported by GET /api/cache.
+const lookups = new Map<string, { hits: number; misses: number }>();
+
+export function recordLookup(cache: string, hit: boolean) {
+  const counts = lookups.get(cache) ?? { hits: 0, misses: 0 };
+  if (hit) counts.hits++;
+  else counts.misses++;
+  lookups.set(cache, counts);
+}
+
+export function cacheStats() {
+  return Object.fromEntries([...lookups].map(([cache, { hits, misses }]) => [
+    cache,
+    { hits, misses, hitRate: hits + misses > 0 ? hits / (hits + misses) : null },
+  ]));
+}
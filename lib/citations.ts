@@ -0,0 +1,47 @@
+import type { RetrievedChunk } from './retrieval/search';
+
+export type CitedSource = { id: number; url: string; title: string };
+
+// -------- Source registry --------
+// Numbers retrieved pages for one chat response. Every chunk from the same page shares a number,
+// so the model cites pages as [1], [2], ... and only pages that were actually retrieved can be cited.
+export function createSourceRegistry() {
+  const sources = new Map<string, CitedSource>();
+
+  const register = (chunk: RetrievedChunk) => {
+    let source = sources.get(chunk.url);
+    if (!source) {
+      source = { id: sources.size + 1, url: chunk.url, title: chunk.title || chunk.url };
+      sources.set(chunk.url, source);
+    }
+    return source;
+  };
+
+  return {
+    // Labels each snippet with its source number, title, URL and position on the page.
+    format(chunks: RetrievedChunk[]) {
+      return chunks
+        .map(chunk => {
+          const source = register(chunk);
+          const section = chunk.headingPath.length > 0 ? ` — ${chunk.headingPath.join(' > ')}` : '';
+          return `[${source.id}] ${source.title} (${source.url})${section}\n${chunk.text}`;
+        })
+        .join('\n\n');
+    },
+
+    isRetrieved(url: string) {
+      return sources.has(url);
+    },
+
+    // Sources whose number appears as a [n] marker in the answer, in citation order.
+    cited(answer: string) {
+      const byId = new Map([...sources.values()].map(source => [source.id, source]));
+      const cited = new Map<number, CitedSource>();
+      for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+        const source = byId.get(Number(match[1]));
+        if (source) cited.set(source.id, source);
+      }
+      return [...cited.values()];
+    },
+  };
+}
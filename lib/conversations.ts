@@ -0,0 +1,117 @@
+import type { UIMessage } from 'ai';
+import { supabase } from './supabase';
+
+// Conversations idle for longer than this are no longer resumed and are deleted by the purge.
+export const RETENTION_DAYS = Number(process.env.CONVERSATION_RETENTION_DAYS ?? 30);
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+let lastPurgeAt = 0;
+
+type MessageRow = {
+  id: string;
+  role: UIMessage['role'];
+  parts: UIMessage['parts'];
+  metadata: unknown;
+};
+
+function retentionCutoff() {
+  return new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// -------- Conversations --------
+// A conversation is identified by the session id the chat widget keeps in localStorage, generated with
+// crypto.randomUUID().
+export const isSessionId = (value: unknown): value is string =>
+  typeof value === 'string' && /^[\w-]{8,100}$/.test(value);
+
+// A session whose conversation expired but was not purged yet starts over: the old conversation is deleted
+// first, so the upsert below never brings it back.
+export async function getOrCreateConversation(tenantId: string, sessionId: string) {
+  const { error: expiredError } = await supabase
+    .from('conversations')
+    .delete()
+    .eq('tenant_id', tenantId)
+    .eq('session_id', sessionId)
+    .lt('last_message_at', retentionCutoff());
+  if (expiredError) throw expiredError;
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .upsert(
+      [{ tenant_id: tenantId, session_id: sessionId, last_message_at: new Date().toISOString() }],
+      { onConflict: 'tenant_id,session_id' },
+    )
+    .select('id')
+    .single();
+  if (error) throw error;
+  return data.id as string;
+}
+
+// Stored messages are never replaced: a message whose id the conversation already has is skipped. Visitors
+// choose their message ids, so they could otherwise overwrite the bot's or a team member's replies, and
+// re-sending the same history does not duplicate rows. Returns the messages that were stored.
+export async function saveMessages(conversationId: string, messages: UIMessage[]) {
+  if (messages.length === 0) return [];
+  const { data, error } = await supabase
+    .from('conversation_messages')
+    .upsert(
+      messages.map(message => ({
+        conversation_id: conversationId,
+        id: message.id,
+        role: message.role,
+        parts: message.parts,
+        metadata: message.metadata ?? null,
+      })),
+      { onConflict: 'conversation_id,id', ignoreDuplicates: true },
+    )
+    .select('id');
+  if (error) throw error;
+  const stored = new Set((data as { id: string }[] ?? []).map(row => row.id));
+  return messages.filter(message => stored.has(message.id));
+}
+
+// The id of the session's conversation, or null if it expired or never existed.
+export async function findConversationId(tenantId: string, sessionId: string) {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('tenant_id', tenantId)
+    .eq('session_id', sessionId)
+    .gte('last_message_at', retentionCutoff())
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.id as string | undefined) ?? null;
+}
+
+export async function getConversationMessages(conversationId: string): Promise<UIMessage[]> {
+  const { data, error } = await supabase
+    .from('conversation_messages')
+    .select('id, role, parts, metadata')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  return (data as MessageRow[] ?? []).map(row => ({
+    id: row.id,
+    role: row.role,
+    parts: row.parts,
+    ...(row.metadata ? { metadata: row.metadata } : {}),
+  }));
+}
+
+// Deletes expired conversations; their messages, chat events and answer feedback cascade. Events and feedback
+// without a conversation, such as those left by conversations deleted before the cascade, go by age with the
+// same cutoff. Runs at most once an hour per instance.
+export async function purgeExpiredConversations() {
+  if (Date.now() - lastPurgeAt < PURGE_INTERVAL_MS) return;
+  lastPurgeAt = Date.now();
+
+  const cutoff = retentionCutoff();
+  const { error } = await supabase.from('conversations').delete().lt('last_message_at', cutoff);
+  if (error) throw error;
+
+  for (const table of ['chat_events', 'answer_feedback']) {
+    const { error } = await supabase.from(table).delete().is('conversation_id', null).lt('created_at', cutoff);
+    if (error) throw error;
+  }
+}
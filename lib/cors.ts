@@ -0,0 +1,70 @@
+import { tenants } from '@/config/tenants';
+import type { TenantConfig } from './tenants';
+
+// Kept free of Node APIs: the middleware uses it to set frame-ancestors for the embedded chat.
+
+// -------- Allowed origins --------
+export function allowedOrigins(tenant: TenantConfig) {
+  return [new URL(tenant.siteUrl).origin, ...(tenant.allowedOrigins ?? [])];
+}
+
+export function isAllowedOrigin(tenant: TenantConfig, origin: string) {
+  return allowedOrigins(tenant).some(allowed => allowed === '*' || allowed === origin);
+}
+
+// Preflight requests carry no tenant, so they pass if any tenant allows the origin; the request itself is
+// checked against its tenant.
+export const isKnownOrigin = (origin: string) => tenants.some(tenant => isAllowedOrigin(tenant, origin));
+
+// The browser sends Origin on same-origin POSTs too; those come from the bot's own pages.
+export function isSameOrigin(origin: string, host: string | null) {
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// Cross-origin browser requests must come from one of the tenant's allowed origins.
+export function isOriginRejected(req: Request, tenant: TenantConfig) {
+  const origin = req.headers.get('origin');
+  return !!origin && !isSameOrigin(origin, req.headers.get('host')) && !isAllowedOrigin(tenant, origin);
+}
+
+export const originRejected = () => new Response(JSON.stringify({ error: 'Origin not allowed' }), { status: 403 });
+
+// -------- Headers --------
+export function corsHeaders(origin: string): Record<string, string> {
+  return {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'content-type, x-tenant-id',
+    'Access-Control-Expose-Headers': 'x-prompt-version, x-answer-cache, retry-after',
+    'Access-Control-Max-Age': '600',
+    Vary: 'Origin',
+  };
+}
+
+// Content-Security-Policy value that lets the tenant's sites frame the chat panel.
+export function frameAncestors(tenant: TenantConfig) {
+  const origins = allowedOrigins(tenant);
+  return `frame-ancestors ${origins.includes('*') ? '*' : ["'self'", ...origins].join(' ')}`;
+}
+
+// Lets the widget, or a site's own client, call the API from another origin. Responses to known origins
+// carry CORS headers; which tenant an origin may use is checked by the handlers.
+export function withCors(req: Request, res: Response) {
+  const origin = req.headers.get('origin');
+  if (!origin || isSameOrigin(origin, req.headers.get('host')) || !isKnownOrigin(origin)) return res;
+
+  const headers = new Headers(res.headers);
+  for (const [name, value] of Object.entries(corsHeaders(origin))) headers.set(name, value);
+  return new Response(res.body, { status: res.status, statusText: res.statusText, headers });
+}
+
+// Answers preflight requests from known origins.
+export function preflight(req: Request) {
+  const origin = req.headers.get('origin');
+  if (!origin || !isKnownOrigin(origin)) return new Response(null, { status: 403 });
+  return new Response(null, { status: 204, headers: corsHeaders(origin) });
+}
@@ -0,0 +1,16 @@
+// -------- CSV --------
+// Cells starting with these characters are prefixed with ' so spreadsheets do not run them as formulas.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<T>(rows: T[], columns: { header: string; value: (row: T) => unknown }[]) {
+  const lines = [columns.map(c => escapeCell(c.header)).join(',')];
+  for (const row of rows) lines.push(columns.map(c => escapeCell(c.value(row))).join(','));
+  return lines.join('\r\n') + '\r\n';
+}
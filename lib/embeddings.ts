@@ -0,0 +1,84 @@
+import { embedMany } from 'ai';
+import { defaultCache, recordLookup } from './cache/store';
+import { embeddingModel, embeddingModelId, embeddingProviderOptions } from './models';
+import { createThrottle } from './throttle';
+
+// -------- Embedding calls --------
+// The model comes from EMBEDDING_PROVIDER / EMBEDDING_MODEL (see lib/models.ts). Batches of 100 stay within
+// every provider's per-request limit (text-embedding-004 accepts at most 100 values).
+const EMBEDDING_BATCH_SIZE = 100;
+
+// Shared by every embedding call in this process, so a 429 backs off all of them together.
+const embeddingThrottle = createThrottle(60000 / Number(process.env.EMBEDDING_REQUESTS_PER_MINUTE ?? 1500));
+
+function isQuotaError(err: unknown) {
+  if (typeof err !== 'object' || err === null || !('statusCode' in err)) return false;
+  const e = err as { statusCode?: number; message?: string };
+  return e.statusCode === 429 || !!e.message?.includes('exhausted');
+}
+
+// -------- Embedding helpers --------
+async function withBackoff<T>(fn: () => Promise<T>, retries = 5, delay = 2000) {
+  for (let i = 0; i < retries; i++) {
+    await embeddingThrottle.wait();
+    try {
+      return await fn();
+    } catch (err: unknown) {
+      if (!isQuotaError(err)) throw err;
+      console.warn(`Quota hit, retrying in ${delay}ms...`);
+      embeddingThrottle.pause(delay);
+      delay *= 2;
+    }
+  }
+  throw new Error('Max retries reached for embedding');
+}
+
+export async function embedTexts(values: string[]) {
+  const embeddings: number[][] = [];
+  for (let i = 0; i < values.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = values.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const result = await withBackoff(() => embedMany({
+      model: embeddingModel,
+      values: batch,
+      providerOptions: embeddingProviderOptions,
+      maxRetries: 0,
+    }));
+    embeddings.push(...result.embeddings);
+  }
+  return embeddings;
+}
+
+export async function embedText(value: string) {
+  const [embedding] = await embedTexts([value]);
+  return embedding;
+}
+
+// -------- Query embeddings --------
+// Search queries repeat a lot ("what services do you offer"), so their embeddings are cached. The model id
+// is part of the namespace, so switching models never returns a vector from the old one.
+const QUERY_EMBEDDING_TTL_MS = Number(process.env.QUERY_EMBEDDING_CACHE_TTL_SECONDS ?? 24 * 3600) * 1000;
+
+export async function embedQuery(query: string, cache = defaultCache) {
+  const namespace = `query-embeddings:${embeddingModelId}`;
+  const key = query.trim().replace(/\s+/g, ' ').toLowerCase();
+
+  const cached = await cache.get<number[]>(namespace, key);
+  recordLookup('queryEmbeddings', cached !== undefined);
+  if (cached) return cached;
+
+  const embedding = await embedText(query);
+  await cache.set(namespace, key, embedding, QUERY_EMBEDDING_TTL_MS);
+  return embedding;
+}
+
+export function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * (b[i] ?? 0);
+    normA += a[i] * a[i];
+    normB += (b[i] ?? 0) * (b[i] ?? 0);
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,137 @@
+import { generateText, type LanguageModel } from 'ai';
+import { embedTexts } from '../embeddings';
+import { embeddingModelId } from '../models';
+import { chunkEmbeddingText, chunkSections } from '../indexing/chunk';
+import type { PageSection } from '../indexing/scrape';
+import { searchDocuments } from '../retrieval/search';
+import { createMemoryVectorStore, type VectorStore } from '../retrieval/store';
+import { createSourceRegistry } from '../citations';
+import { buildSystemPrompt, selectPromptVersion } from '../prompts';
+import { evaluateInput } from '../policy/input';
+import { createOutputFilter } from '../policy/output';
+import { tenantPolicy, type Policy } from '../policy/rules';
+import type { TenantConfig } from '../tenants';
+import { factCoverage, mean, recallAtK, reciprocalRank } from './metrics';
+
+export type FixturePage = { url: string; title: string; sections: PageSection[] };
+
+export type GoldenCase = {
+  id: string;
+  question: string;
+  expectedUrls?: string[];
+  // Phrases a good answer contains.
+  expectedFacts?: string[];
+  // The bot must decline: banned topics and off-topic requests.
+  mustRefuse?: boolean;
+};
+
+export type CaseResult = {
+  id: string;
+  retrievedUrls: string[];
+  recall: number | null;
+  reciprocalRank: number | null;
+  refused: boolean;
+  refusalCorrect: boolean;
+  factCoverage: number | null;
+  answer: string;
+};
+
+export type EvalReport = {
+  k: number;
+  promptVersion: string;
+  cases: CaseResult[];
+  recallAtK: number | null;
+  mrr: number | null;
+  refusalAccuracy: number | null;
+  factCoverage: number | null;
+};
+
+type EvalOptions = {
+  tenant: TenantConfig;
+  store: VectorStore;
+  model: LanguageModel;
+  k?: number;
+  promptVersion?: string;
+  minSimilarity?: number;
+};
+
+// -------- Fixture index --------
+// Chunks and embeds fixture pages with the same chunker and embedding provider as the indexer, into an
+// in-memory store.
+export async function indexFixtureCorpus(tenantId: string, pages: FixturePage[]) {
+  const store = createMemoryVectorStore();
+  for (const page of pages) {
+    const chunks = chunkSections(page.sections);
+    const embeddings = await embedTexts(chunks.map(chunkEmbeddingText));
+    await store.replacePage(
+      tenantId,
+      { url: page.url, title: page.title, contentHash: '', embeddingModel: embeddingModelId },
+      chunks.map((chunk, i) => ({ chunkIndex: i, text: chunk.text, headingPath: chunk.headingPath, embedding: embeddings[i] })),
+    );
+  }
+  return store;
+}
+
+// Runs the answer text through the policy's output filter, as the chat route does for the stream.
+async function filterAnswer(policy: Policy, text: string) {
+  const reader = new ReadableStream({
+    start(controller) {
+      controller.enqueue({ type: 'text-start' as const, id: 'answer' });
+      controller.enqueue({ type: 'text-delta' as const, id: 'answer', delta: text });
+      controller.enqueue({ type: 'text-end' as const, id: 'answer' });
+      controller.close();
+    },
+  }).pipeThrough(createOutputFilter(policy)).getReader();
+
+  let filtered = '';
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    if (next.value.type === 'text-delta') filtered += next.value.delta;
+  }
+  return filtered;
+}
+
+// -------- Evaluation --------
+// Sends each golden question through the chat pipeline (guardrails, retrieval, prompt, model, output filter)
+// and scores retrieval and answers. The policy classifier is not used, so runs stay deterministic.
+export async function runEval(cases: GoldenCase[], { tenant, store, model, k = 4, promptVersion, minSimilarity }: EvalOptions): Promise<EvalReport> {
+  const policy = tenantPolicy(tenant);
+  const version = promptVersion ?? selectPromptVersion(tenant, 'eval');
+  const results: CaseResult[] = [];
+
+  for (const golden of cases) {
+    const chunks = await searchDocuments(tenant.id, golden.question, k, { store, minSimilarity, rerank: false });
+    const retrievedUrls = [...new Set(chunks.map(c => c.url))];
+
+    let answer: string;
+    const decision = await evaluateInput(policy, golden.question, { classify: false });
+    if (decision.action === 'reply') {
+      answer = decision.text;
+    } else {
+      const system = buildSystemPrompt(tenant, createSourceRegistry().format(chunks), version);
+      const { text } = await generateText({ model, system, prompt: golden.question });
+      answer = await filterAnswer(policy, text);
+    }
+
+    const refused = [policy.refusal, policy.forbidden.reply].some(reply => answer.includes(reply));
+    results.push({
+      id: golden.id,
+      retrievedUrls,
+      recall: recallAtK(retrievedUrls, golden.expectedUrls ?? [], k),
+      reciprocalRank: reciprocalRank(retrievedUrls, golden.expectedUrls ?? []),
+      refused,
+      refusalCorrect: refused === Boolean(golden.mustRefuse),
+      factCoverage: factCoverage(answer, golden.expectedFacts ?? []),
+      answer,
+    });
+  }
+
+  return {
+    k,
+    promptVersion: version,
+    cases: results,
+    recallAtK: mean(results.map(r => r.recall)),
+    mrr: mean(results.map(r => r.reciprocalRank)),
+    refusalAccuracy: mean(results.map(r => (r.refusalCorrect ? 1 : 0))),
+    factCoverage: mean(results.map(r => r.factCoverage)),
+  };
+}
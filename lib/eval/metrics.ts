@@ -0,0 +1,29 @@
+// -------- Retrieval metrics --------
+// Share of the expected URLs found among the first k retrieved URLs.
+export function recallAtK(retrievedUrls: string[], expectedUrls: string[], k: number) {
+  if (expectedUrls.length === 0) return null;
+  const top = new Set(retrievedUrls.slice(0, k));
+  return expectedUrls.filter(url => top.has(url)).length / expectedUrls.length;
+}
+
+// 1 / rank of the first expected URL, 0 when none was retrieved.
+export function reciprocalRank(retrievedUrls: string[], expectedUrls: string[]) {
+  if (expectedUrls.length === 0) return null;
+  const rank = retrievedUrls.findIndex(url => expectedUrls.includes(url));
+  return rank === -1 ? 0 : 1 / (rank + 1);
+}
+
+// -------- Answer metrics --------
+// Share of the expected facts that appear in the answer, ignoring case and spacing.
+export function factCoverage(answer: string, facts: string[]) {
+  if (facts.length === 0) return null;
+  const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ');
+  const text = normalize(answer);
+  return facts.filter(fact => text.includes(normalize(fact))).length / facts.length;
+}
+
+// Mean of the values that apply; null when none do.
+export function mean(values: (number | null)[]) {
+  const applicable = values.filter((v): v is number => v !== null);
+  return applicable.length > 0 ? applicable.reduce((sum, v) => sum + v, 0) / applicable.length : null;
+}
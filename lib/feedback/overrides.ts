@@ -0,0 +1,102 @@
+import { defaultCache } from '../cache/store';
+import { cosineSimilarity, embedQuery, embedText } from '../embeddings';
+import { embeddingModelId } from '../models';
+import { supabase } from '../supabase';
+
+export type FaqOverride = {
+  id: string;
+  tenant_id: string;
+  question: string;
+  answer: string;
+  source_url: string | null;
+  embedding: number[];
+  embedding_model: string;
+  feedback_id: string | null;
+  created_at: string;
+};
+
+// FAQ_OVERRIDES=off stops answering from them; FAQ_OVERRIDE_SIMILARITY is the cosine similarity above which
+// a question counts as the override's question.
+export const faqOverridesEnabled = process.env.FAQ_OVERRIDES !== 'off';
+const OVERRIDE_SIMILARITY = Number(process.env.FAQ_OVERRIDE_SIMILARITY ?? 0.92);
+// How long a tenant's overrides are kept in memory. Changes made in this process drop them right away.
+const OVERRIDES_TTL_MS = 60_000;
+
+const overridesNamespace = (tenantId: string) => `faq-overrides:${tenantId}`;
+
+// -------- Admin --------
+export async function listFaqOverrides(tenantId?: string) {
+  let query = supabase.from('faq_overrides').select('*');
+  if (tenantId) query = query.eq('tenant_id', tenantId);
+  const { data, error } = await query.order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as FaqOverride[];
+}
+
+export async function createFaqOverride(override: {
+  tenantId: string;
+  question: string;
+  answer: string;
+  sourceUrl?: string | null;
+  feedbackId?: string | null;
+}) {
+  const embedding = await embedText(override.question);
+  const { error } = await supabase.from('faq_overrides').insert([{
+    tenant_id: override.tenantId,
+    question: override.question,
+    answer: override.answer,
+    source_url: override.sourceUrl ?? null,
+    embedding,
+    embedding_model: embeddingModelId,
+    feedback_id: override.feedbackId ?? null,
+  }]);
+  if (error) throw error;
+  await defaultCache.clear(overridesNamespace(override.tenantId));
+}
+
+export async function deleteFaqOverride(id: string) {
+  const { data, error } = await supabase.from('faq_overrides').delete().eq('id', id).select('tenant_id');
+  if (error) throw error;
+  for (const row of data ?? []) await defaultCache.clear(overridesNamespace(row.tenant_id as string));
+}
+
+// -------- Lookup --------
+// Overrides embedded with another model are embedded again with the current one, so switching
+// EMBEDDING_MODEL never compares vectors from different models.
+async function loadOverrides(tenantId: string) {
+  const cached = await defaultCache.get<FaqOverride[]>(overridesNamespace(tenantId), 'all');
+  if (cached) return cached;
+
+  const overrides = await listFaqOverrides(tenantId);
+  for (const override of overrides) {
+    if (override.embedding_model === embeddingModelId) continue;
+    override.embedding = await embedText(override.question);
+    override.embedding_model = embeddingModelId;
+    const { error } = await supabase
+      .from('faq_overrides')
+      .update({ embedding: override.embedding, embedding_model: embeddingModelId })
+      .eq('id', override.id);
+    if (error) console.error('FAQ override embedding error:', error);
+  }
+  await defaultCache.set(overridesNamespace(tenantId), 'all', overrides, OVERRIDES_TTL_MS);
+  return overrides;
+}
+
+// The override whose question is closest to the query, if any is close enough.
+export async function findFaqOverride(tenantId: string, query: string) {
+  if (!faqOverridesEnabled) return undefined;
+  const overrides = await loadOverrides(tenantId);
+  if (overrides.length === 0) return undefined;
+
+  const embedding = await embedQuery(query);
+  let best: FaqOverride | undefined;
+  let bestSimilarity = OVERRIDE_SIMILARITY;
+  for (const override of overrides) {
+    const similarity = cosineSimilarity(embedding, override.embedding);
+    if (similarity >= bestSimilarity) {
+      best = override;
+      bestSimilarity = similarity;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,139 @@
+import type { TextUIPart, UIMessage } from 'ai';
+import { isUuid, supabase } from '../supabase';
+import { getConversationMessages } from '../conversations';
+
+export const FEEDBACK_STATUSES = ['new', 'resolved', 'dismissed'] as const;
+export type FeedbackStatus = typeof FEEDBACK_STATUSES[number];
+export type FeedbackRating = 'up' | 'down';
+
+// A chunk retrieved for an answer. The chat route stores these in the assistant message's metadata.
+export type RetrievedRef = { url: string; title: string | null; chunkIndex: number; similarity: number };
+
+export type AnswerFeedback = {
+  id: string;
+  tenant_id: string;
+  conversation_id: string | null;
+  message_id: string;
+  created_at: string;
+  rating: FeedbackRating;
+  comment: string | null;
+  question: string | null;
+  answer: string;
+  retrieved: RetrievedRef[];
+  prompt_version: string | null;
+  status: FeedbackStatus;
+  correct_source_url: string | null;
+  reviewed_at: string | null;
+};
+
+export type FeedbackFilters = {
+  tenantId?: string;
+  status?: FeedbackStatus;
+  rating?: FeedbackRating;
+};
+
+export const FEEDBACK_PAGE_SIZE = 50;
+const MAX_COMMENT_CHARS = 1000;
+
+const messageText = (message: UIMessage) =>
+  message.parts
+    .filter((part): part is TextUIPart => part.type === 'text')
+    .map(part => part.text)
+    .join('\n');
+
+// -------- Recording --------
+// Feedback is taken from the stored conversation rather than from the client: the rated answer, the question
+// before it, and what the answer was based on. Rating the same answer again replaces the earlier rating and
+// comment but keeps its review, unless the rating changed: then it is back in the queue as new.
+// Returns false when the message is not a stored assistant answer.
+export async function saveFeedback(
+  tenantId: string,
+  conversationId: string,
+  messageId: string,
+  rating: FeedbackRating,
+  comment?: string,
+) {
+  const messages = await getConversationMessages(conversationId);
+  const index = messages.findIndex(m => m.id === messageId && m.role === 'assistant');
+  if (index < 0) return false;
+
+  const answer = messages[index];
+  const question = messages.slice(0, index).reverse().find(m => m.role === 'user');
+  const metadata = (answer.metadata ?? {}) as { retrieved?: RetrievedRef[]; promptVersion?: string };
+
+  const { data: earlier, error: readError } = await supabase
+    .from('answer_feedback')
+    .select('id, rating')
+    .eq('conversation_id', conversationId)
+    .eq('message_id', messageId)
+    .maybeSingle();
+  if (readError) throw readError;
+
+  // Review columns are left out, so a new row starts as 'new' and an existing one keeps its review.
+  const { error } = await supabase.from('answer_feedback').upsert([{
+    tenant_id: tenantId,
+    conversation_id: conversationId,
+    message_id: messageId,
+    rating,
+    comment: comment?.trim().slice(0, MAX_COMMENT_CHARS) || null,
+    question: question ? messageText(question) : null,
+    answer: messageText(answer),
+    retrieved: metadata.retrieved ?? [],
+    prompt_version: metadata.promptVersion ?? null,
+  }], { onConflict: 'conversation_id,message_id' });
+  if (error) throw error;
+
+  if (earlier && earlier.rating !== rating) {
+    const { error: reopenError } = await supabase
+      .from('answer_feedback')
+      .update({ status: 'new', correct_source_url: null, reviewed_at: null })
+      .eq('id', earlier.id);
+    if (reopenError) throw reopenError;
+  }
+  return true;
+}
+
+// -------- Review queue --------
+export async function listFeedback(filters: FeedbackFilters, page = 0) {
+  let query = supabase.from('answer_feedback').select('*', { count: 'exact' });
+  if (filters.tenantId) query = query.eq('tenant_id', filters.tenantId);
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.rating) query = query.eq('rating', filters.rating);
+  const { data, count, error } = await query
+    .order('created_at', { ascending: false })
+    .range(page * FEEDBACK_PAGE_SIZE, (page + 1) * FEEDBACK_PAGE_SIZE - 1);
+  if (error) throw error;
+  return { feedback: (data ?? []) as AnswerFeedback[], total: count ?? 0 };
+}
+
+export async function getFeedback(id: string) {
+  if (!isUuid(id)) return null;
+  const { data, error } = await supabase.from('answer_feedback').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data as AnswerFeedback | null;
+}
+
+export async function reviewFeedback(id: string, status: FeedbackStatus, correctSourceUrl: string | null = null) {
+  const { error } = await supabase
+    .from('answer_feedback')
+    .update({ status, correct_source_url: correctSourceUrl, reviewed_at: new Date().toISOString() })
+    .eq('id', id);
+  if (error) throw error;
+}
+
+// Reads filters from the queue's query string. The queue shows new feedback unless asked otherwise;
+// `status=all` shows every status.
+export function parseFeedbackFilters(params: Record<string, string | string[] | undefined>): FeedbackFilters {
+  const get = (key: string) => {
+    const value = params[key];
+    return (Array.isArray(value) ? value[0] : value) || undefined;
+  };
+  const status = get('status') ?? 'new';
+  const rating = get('rating');
+
+  return {
+    tenantId: get('tenant'),
+    status: FEEDBACK_STATUSES.includes(status as FeedbackStatus) ? status as FeedbackStatus : undefined,
+    rating: rating === 'up' || rating === 'down' ? rating : undefined,
+  };
+}
@@ -0,0 +1,93 @@
+import { EventEmitter } from 'node:events';
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+import type { UIMessage } from 'ai';
+import { supabase } from '../supabase';
+
+export type HandoffMode = 'bot' | 'waiting' | 'human';
+
+export type HandoffState = { mode: HandoffMode; agentName: string | null };
+
+// Sent on a conversation's channel (`conversation:<id>`) and on the operators' `queue` channel.
+export type HandoffEvent =
+  | ({ type: 'state' } & HandoffState)
+  | { type: 'message'; message: UIMessage }
+  | { type: 'queue'; conversationId: string };
+
+export const conversationChannel = (conversationId: string) => `conversation:${conversationId}`;
+export const QUEUE_CHANNEL = 'queue';
+
+// -------- Event bus --------
+// Delivers handoff events to the open event streams of visitors and operators.
+export type HandoffBus = {
+  publish(channel: string, event: HandoffEvent): void;
+  // Returns the unsubscribe function.
+  subscribe(channel: string, listener: (event: HandoffEvent) => void): () => void;
+};
+
+// Only reaches streams served by the same process: for tests and single-instance development.
+export function createMemoryBus(): HandoffBus {
+  const emitter = new EventEmitter();
+  // Every open chat and console tab holds a listener.
+  emitter.setMaxListeners(0);
+
+  return {
+    publish(channel, event) {
+      emitter.emit(channel, event);
+    },
+    subscribe(channel, listener) {
+      emitter.on(channel, listener);
+      return () => { emitter.off(channel, listener); };
+    },
+  };
+}
+
+// Supabase Realtime broadcast, so an event published by one server instance reaches streams on every other.
+// Topics are private: browsers holding the anon key cannot join them, only the server's key can.
+export function createRealtimeBus(client: SupabaseClient): HandoffBus {
+  const joined = new Map<string, { channel: RealtimeChannel; listeners: Set<(event: HandoffEvent) => void> }>();
+  const topic = (channel: string) => `handoff:${channel}`;
+
+  return {
+    publish(channel, event) {
+      const message = { type: 'broadcast' as const, event: 'handoff', payload: event };
+      // A channel this instance has not joined sends over HTTP; a joined one over its socket, and with
+      // `self` set the event comes back to this instance's listeners too.
+      const subscribed = joined.get(channel)?.channel;
+      const target = subscribed ?? client.channel(topic(channel), { config: { private: true } });
+      target.send(message)
+        .then(status => { if (status !== 'ok') console.error(`Handoff event not delivered (${status})`); })
+        .finally(() => { if (!subscribed) void client.removeChannel(target); });
+    },
+    subscribe(channel, listener) {
+      let entry = joined.get(channel);
+      if (!entry) {
+        const listeners = new Set<(event: HandoffEvent) => void>();
+        const realtime = client
+          .channel(topic(channel), { config: { private: true, broadcast: { self: true } } })
+          .on('broadcast', { event: 'handoff' }, ({ payload }) => {
+            for (const notify of listeners) notify(payload as HandoffEvent);
+          })
+          .subscribe((status, err) => {
+            if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') console.error(`Handoff channel ${status}:`, err);
+          });
+        entry = { channel: realtime, listeners };
+        joined.set(channel, entry);
+      }
+
+      const { listeners } = entry;
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size > 0 || joined.get(channel)?.listeners !== listeners) return;
+        joined.delete(channel);
+        void client.removeChannel(entry.channel);
+      };
+    },
+  };
+}
+
+// HANDOFF_BUS=memory keeps events in the process. Kept on globalThis: route handlers and server actions can be
+// bundled separately, and they must share one bus.
+const globalBus = globalThis as typeof globalThis & { handoffBus?: HandoffBus };
+export const defaultHandoffBus: HandoffBus = globalBus.handoffBus ??=
+  process.env.HANDOFF_BUS === 'memory' ? createMemoryBus() : createRealtimeBus(supabase);
@@ -0,0 +1,151 @@
+import type { UIMessage } from 'ai';
+import { isUuid, supabase } from '../supabase';
+import { saveMessages } from '../conversations';
+import { conversationChannel, defaultHandoffBus, QUEUE_CHANNEL, type HandoffMode, type HandoffState } from './events';
+
+export type QueuedConversation = {
+  id: string;
+  tenant_id: string;
+  session_id: string;
+  mode: HandoffMode;
+  handoff_reason: string | null;
+  handoff_requested_at: string | null;
+  agent_name: string | null;
+  last_message_at: string;
+};
+
+const QUEUE_COLUMNS = 'id, tenant_id, session_id, mode, handoff_reason, handoff_requested_at, agent_name, last_message_at';
+
+// Shown to the visitor when they ask for a person themselves.
+export const HANDOFF_REQUESTED_TEXT = 'I\'ve asked a member of our team to join. They\'ll reply right here, so feel free to keep writing.';
+// Reply from /api/chat to a message sent there while a team member has the conversation.
+export const HANDOFF_RELAYED_TEXT = 'Your message has been passed on to our team.';
+
+const stateOf = (row: { mode: HandoffMode; agent_name: string | null }): HandoffState =>
+  ({ mode: row.mode, agentName: row.agent_name });
+
+const assistantMessage = (text: string, metadata: Record<string, unknown>): UIMessage => ({
+  id: crypto.randomUUID(),
+  role: 'assistant',
+  parts: [{ type: 'text', text }],
+  metadata: { createdAt: new Date().toISOString(), ...metadata },
+});
+
+// Tells the conversation's visitor and operators about the new state, and operators to refresh the queue.
+function announceState(conversationId: string, state: HandoffState, bus = defaultHandoffBus) {
+  bus.publish(conversationChannel(conversationId), { type: 'state', ...state });
+  bus.publish(QUEUE_CHANNEL, { type: 'queue', conversationId });
+}
+
+async function touchConversation(conversationId: string) {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ last_message_at: new Date().toISOString() })
+    .eq('id', conversationId);
+  if (error) throw error;
+}
+
+// -------- State --------
+export async function getHandoffState(conversationId: string): Promise<HandoffState> {
+  const { data, error } = await supabase.from('conversations').select('mode, agent_name').eq('id', conversationId).single();
+  if (error) throw error;
+  return stateOf(data);
+}
+
+// -------- Visitor side --------
+// Puts the conversation in the queue. Conversations already waiting or with a team member keep their state.
+export async function requestHandoff(conversationId: string, reason: string, bus = defaultHandoffBus) {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ mode: 'waiting', handoff_reason: reason.slice(0, 500), handoff_requested_at: new Date().toISOString() })
+    .eq('id', conversationId)
+    .eq('mode', 'bot');
+  if (error) throw error;
+
+  const state = await getHandoffState(conversationId);
+  announceState(conversationId, state, bus);
+  return state;
+}
+
+// Stores a message the visitor wrote while the conversation is out of the bot's hands and passes it on.
+// A message with an id the conversation already has is neither stored nor passed on.
+export async function relayVisitorMessage(conversationId: string, message: UIMessage, bus = defaultHandoffBus) {
+  const stored = await saveMessages(conversationId, [message]);
+  if (stored.length === 0) return;
+  await touchConversation(conversationId);
+  bus.publish(conversationChannel(conversationId), { type: 'message', message });
+  bus.publish(QUEUE_CHANNEL, { type: 'queue', conversationId });
+}
+
+// The assistant's note that a person was asked to join, stored so the visitor sees it after a reload.
+export async function saveHandoffNotice(conversationId: string) {
+  const message = assistantMessage(HANDOFF_REQUESTED_TEXT, { handoff: 'waiting' });
+  await saveMessages(conversationId, [message]);
+  return message;
+}
+
+// -------- Operator side --------
+// Conversations waiting for or handled by a team member, oldest request first.
+export async function listHandoffQueue() {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select(QUEUE_COLUMNS)
+    .neq('mode', 'bot')
+    .order('handoff_requested_at', { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as QueuedConversation[];
+}
+
+export async function getHandoffConversation(conversationId: string) {
+  if (!isUuid(conversationId)) return null;
+  const { data, error } = await supabase.from('conversations').select(QUEUE_COLUMNS).eq('id', conversationId).maybeSingle();
+  if (error) throw error;
+  return data as QueuedConversation | null;
+}
+
+// A team member takes the conversation; the bot stays quiet until it is handed back. Only a conversation no one
+// has yet can be claimed, so when two operators click at once one of them loses: `claimed` is false and
+// `state` names whoever has it. Claiming one's own conversation again succeeds. Returns null for an id that
+// cannot be a conversation.
+export async function claimConversation(conversationId: string, agentName: string, bus = defaultHandoffBus) {
+  if (!isUuid(conversationId)) return null;
+  const { data, error } = await supabase
+    .from('conversations')
+    .update({ mode: 'human', agent_name: agentName })
+    .eq('id', conversationId)
+    .neq('mode', 'human')
+    .select('id');
+  if (error) throw error;
+
+  if (data.length === 0) {
+    const state = await getHandoffState(conversationId);
+    return { claimed: state.mode === 'human' && state.agentName === agentName, state };
+  }
+  const state: HandoffState = { mode: 'human', agentName };
+  announceState(conversationId, state, bus);
+  return { claimed: true, state };
+}
+
+// Hands the conversation back to the bot and takes it off the queue. Returns false when there is no such
+// conversation.
+export async function releaseConversation(conversationId: string, bus = defaultHandoffBus) {
+  if (!isUuid(conversationId)) return false;
+  const { data, error } = await supabase
+    .from('conversations')
+    .update({ mode: 'bot', agent_name: null, handoff_reason: null, handoff_requested_at: null })
+    .eq('id', conversationId)
+    .select('id');
+  if (error) throw error;
+  if (data.length === 0) return false;
+  announceState(conversationId, { mode: 'bot', agentName: null }, bus);
+  return true;
+}
+
+// A team member's reply. It is stored as an assistant message with the agent's name in its metadata.
+export async function postAgentMessage(conversationId: string, agentName: string, text: string, bus = defaultHandoffBus) {
+  const message = assistantMessage(text, { agent: agentName });
+  await saveMessages(conversationId, [message]);
+  await touchConversation(conversationId);
+  bus.publish(conversationChannel(conversationId), { type: 'message', message });
+  return message;
+}
@@ -0,0 +1,51 @@
+import type { HandoffEvent } from './events';
+
+// Proxies and load balancers drop connections that stay silent for too long.
+const HEARTBEAT_MS = 25_000;
+
+// -------- Server-sent events --------
+// Streams events as `data:` lines until the client disconnects. `start` sends the initial events and returns
+// the cleanup for its subscriptions. EventSource reconnects on its own, so streams cut short by a platform's
+// time limit resume.
+export function eventStreamResponse(
+  signal: AbortSignal,
+  start: (send: (event: HandoffEvent) => void) => () => void,
+) {
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const write = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text));
+      };
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+      const unsubscribe = start(event => write(`data: ${JSON.stringify(event)}\n\n`));
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      if (signal.aborted) cleanup();
+      signal.addEventListener('abort', () => {
+        cleanup();
+        try { controller.close(); } catch {}
+      });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
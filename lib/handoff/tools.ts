@@ -0,0 +1,27 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { requestHandoff } from './service';
+
+// -------- Tools --------
+// Lets the assistant put the conversation in the operators' queue. The reply that called it is the bot's last
+// until a team member hands the conversation back.
+export function handoffTools(conversationId: string) {
+  return {
+    requestHuman: tool({
+      description: 'Ask a human team member to take over this chat. Use it when the customer asks to talk to a person, ' +
+        'or needs help you cannot give from the website content.',
+      inputSchema: z.object({
+        reason: z.string().describe('One sentence for the team member on what the customer needs'),
+      }),
+      execute: async ({ reason }) => {
+        try {
+          const state = await requestHandoff(conversationId, reason);
+          return { ...state, text: 'A team member has been asked to join. Tell the customer they will reply in this chat shortly.' };
+        } catch (e) {
+          console.error('Handoff request error:', e);
+          return { mode: 'bot' as const, agentName: null, text: 'No team member could be reached. Offer the contact form instead.' };
+        }
+      },
+    }),
+  };
+}
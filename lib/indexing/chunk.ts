@@ -0,0 +1,101 @@
+import type { ContentBlock, PageSection } from './scrape';
+
+export type Chunk = { headingPath: string[]; text: string };
+
+const MAX_CHUNK_CHARS = 1000;
+// A section this short is folded into the next one instead of becoming a chunk of its own.
+const MIN_CHUNK_CHARS = 200;
+const MIN_KEPT_CHARS = 20;
+
+const sentenceSegmenter = new Intl.Segmenter('en', { granularity: 'sentence' });
+
+function formatBlock(block: ContentBlock) {
+  return block.type === 'list_item' ? `• ${block.text}` : block.text;
+}
+
+// Splits text that does not fit in a chunk at sentence boundaries, and at word boundaries as a last resort.
+function splitToFit(text: string, max: number): string[] {
+  if (text.length <= max) return [text];
+
+  const pieces: string[] = [];
+  for (const { segment } of sentenceSegmenter.segment(text)) {
+    const sentence = segment.trim();
+    if (!sentence) continue;
+    if (sentence.length <= max) {
+      pieces.push(sentence);
+      continue;
+    }
+    let line = '';
+    for (const word of sentence.split(' ')) {
+      if (line && line.length + word.length + 1 > max) {
+        pieces.push(line);
+        line = '';
+      }
+      line = line ? `${line} ${word}` : word;
+    }
+    if (line) pieces.push(line);
+  }
+
+  // Re-pack sentences so a long paragraph becomes as few pieces as possible.
+  const packed: string[] = [];
+  for (const piece of pieces) {
+    const last = packed[packed.length - 1];
+    if (last !== undefined && last.length + piece.length + 1 <= max) packed[packed.length - 1] = `${last} ${piece}`;
+    else packed.push(piece);
+  }
+  return packed;
+}
+
+function commonPrefix(a: string[], b: string[]) {
+  const prefix: string[] = [];
+  for (let i = 0; i < Math.min(a.length, b.length) && a[i] === b[i]; i++) prefix.push(a[i]);
+  return prefix;
+}
+
+// -------- Section-aware chunking --------
+// Chunks never cut through a sentence, list item or table row, and start afresh at each heading
+// unless the chunk so far is too short to stand alone.
+export function chunkSections(sections: PageSection[], maxChars = MAX_CHUNK_CHARS): Chunk[] {
+  const chunks: Chunk[] = [];
+  let current: { headingPath: string[]; lines: string[]; length: number } | null = null;
+
+  const flush = () => {
+    if (!current) return;
+    const text = current.lines.join('\n').trim();
+    if (text.length >= MIN_KEPT_CHARS) chunks.push({ headingPath: current.headingPath, text });
+    current = null;
+  };
+  const append = (line: string) => {
+    current!.lines.push(line);
+    current!.length += line.length + 1;
+  };
+
+  for (const section of sections) {
+    const lines = section.blocks.flatMap(block => splitToFit(formatBlock(block), maxChars));
+    const heading = section.headingPath[section.headingPath.length - 1];
+
+    if (current && current.length < MIN_CHUNK_CHARS && heading && current.length + heading.length + (lines[0]?.length ?? 0) + 2 <= maxChars) {
+      // Too short to stand alone: keep going in the same chunk, with the heading inline for context.
+      current.headingPath = commonPrefix(current.headingPath, section.headingPath);
+      append(heading);
+    } else {
+      flush();
+      current = { headingPath: section.headingPath, lines: [], length: 0 };
+    }
+
+    for (const line of lines) {
+      if (current!.length > 0 && current!.length + line.length + 1 > maxChars) {
+        flush();
+        current = { headingPath: section.headingPath, lines: [], length: 0 };
+      }
+      append(line);
+    }
+  }
+  flush();
+  return chunks;
+}
+
+// Text sent to the embedding model: the heading path gives each chunk the context of where it sits on the page.
+export function chunkEmbeddingText(chunk: Chunk) {
+  return chunk.headingPath.length > 0 ? `${chunk.headingPath.join(' > ')}\n${chunk.text}` : chunk.text;
+}
@@ -0,0 +1,108 @@
+import type { Browser } from 'puppeteer';
+import { fetchRobots } from './robots';
+import { fetchSitemapUrls } from './sitemap';
+import { createThrottle } from '../throttle';
+import { runPool } from './pool';
+import { isHtmlLike, matchesPatterns, normalizeUrl } from './url';
+
+export type CrawlOptions = {
+  // Link hops followed from the root and sitemap pages; 2 visits the seeds and the pages they link to.
+  depth?: number;
+  maxPages?: number;
+  // Pages loaded at the same time, both while crawling and while indexing.
+  concurrency?: number;
+  include?: string[];
+  exclude?: string[];
+  signal?: AbortSignal;
+};
+
+export type CrawlResult = {
+  urls: string[];
+  crawlDelayMs: number;
+};
+
+// What the crawler needs from a loaded page: its declared canonical URL and its same-origin links.
+export type VisitedPage = { canonical: string | null; links: string[] };
+export type PageVisitor = (url: string) => Promise<VisitedPage>;
+
+export const DEFAULT_MAX_PAGES = 200;
+export const DEFAULT_CONCURRENCY = Number(process.env.INDEX_CONCURRENCY ?? 4);
+
+// Pages are rendered in the browser, so links added by scripts are followed too.
+export const browserVisitor = (browser: Browser): PageVisitor => async url => {
+  const page = await browser.newPage();
+  try {
+    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    return await page.evaluate(() => ({
+      canonical: document.querySelector<HTMLLinkElement>('link[rel="canonical"]')?.href ?? null,
+      links: Array.from(new Set(
+        Array.from(document.querySelectorAll('a'))
+          .map(a => (a as HTMLAnchorElement).href)
+          .filter(href => href.startsWith(window.location.origin))
+      )),
+    }));
+  } finally {
+    await page.close();
+  }
+};
+
+// -------- Crawl site --------
+// Seeds from the root and sitemap.xml, honours robots.txt and returns canonical, de-duplicated page URLs.
+// Pages are loaded with `visitPage`, normally browserVisitor.
+export async function crawlSite(visitPage: PageVisitor, baseUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const { depth = 2, maxPages = DEFAULT_MAX_PAGES, concurrency = DEFAULT_CONCURRENCY, include, exclude, signal } = options;
+
+  const root = normalizeUrl(baseUrl);
+  if (!root) throw new Error(`Invalid site URL: ${baseUrl}`);
+  const { origin } = new URL(root);
+
+  const robots = await fetchRobots(origin);
+  const throttle = createThrottle(robots.crawlDelayMs);
+  const canCrawl = (url: string) => new URL(url).origin === origin && isHtmlLike(url) && robots.isAllowed(url);
+
+  const sitemapUrls = await fetchSitemapUrls(
+    robots.sitemaps.length > 0 ? robots.sitemaps : [`${origin}/sitemap.xml`],
+    maxPages,
+  );
+
+  const seen = new Set<string>();
+  const found = new Set<string>();
+  const addTo = (frontier: string[], href: string) => {
+    const url = normalizeUrl(href, root);
+    if (!url || seen.has(url) || !canCrawl(url)) return;
+    seen.add(url);
+    frontier.push(url);
+  };
+
+  // Breadth-first, one link level at a time, with up to `concurrency` pages open per level.
+  let frontier: string[] = [];
+  addTo(frontier, root);
+  for (const url of sitemapUrls) addTo(frontier, url);
+
+  for (let level = 0; level < depth && frontier.length > 0; level++) {
+    const nextFrontier: string[] = [];
+    await runPool(frontier, concurrency, async url => {
+      if (found.size >= maxPages) return;
+
+      await throttle.wait();
+      let result;
+      try {
+        result = await visitPage(url);
+      } catch (error) {
+        console.error(`Error crawling ${url}:`, error);
+        return;
+      }
+
+      // Pages that declare a same-origin canonical are recorded under that URL instead.
+      const canonical = result.canonical ? normalizeUrl(result.canonical) : null;
+      const pageUrl = canonical && canCrawl(canonical) ? canonical : url;
+      seen.add(pageUrl);
+      if (found.size < maxPages && matchesPatterns(pageUrl, include, exclude)) found.add(pageUrl);
+
+      for (const link of result.links) addTo(nextFrontier, link);
+    }, signal);
+    frontier = nextFrontier;
+  }
+
+  return { urls: [...found], crawlDelayMs: robots.crawlDelayMs };
+}
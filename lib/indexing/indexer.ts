@@ -0,0 +1,157 @@
+import { createHash } from 'crypto';
+import puppeteer, { Browser } from 'puppeteer';
+import { invalidateAnswers } from '../cache/answers';
+import { embedTexts } from '../embeddings';
+import { embeddingModelId } from '../models';
+import { defaultVectorStore, embeddingStatus, type VectorStore } from '../retrieval/store';
+import { chunkEmbeddingText, chunkSections } from './chunk';
+import { browserVisitor, crawlSite, CrawlOptions, DEFAULT_CONCURRENCY, DEFAULT_MAX_PAGES } from './crawl';
+import { runPool } from './pool';
+import { scrapePage } from './scrape';
+import { createThrottle } from '../throttle';
+import { matchesPatterns } from './url';
+
+export type IndexError = { url: string; message: string };
+
+export type IndexProgress = {
+  pagesDiscovered: number;
+  pagesIndexed: number;
+  pagesAdded: number;
+  pagesUpdated: number;
+  pagesUnchanged: number;
+  pagesRemoved: number;
+  chunksEmbedded: number;
+  errors: IndexError[];
+};
+
+type PageOutcome = 'added' | 'updated' | 'unchanged';
+
+type IndexSiteOptions = CrawlOptions & {
+  onProgress?: (progress: IndexProgress) => Promise<void>;
+  store?: VectorStore;
+};
+
+function hashContent(text: string) {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+// -------- Index a single page --------
+// Unchanged pages are skipped without re-embedding, unless they were embedded with a different model;
+// changed pages have their chunks swapped in one transaction.
+export async function indexPage(
+  browser: Browser,
+  tenantId: string,
+  url: string,
+  store = defaultVectorStore,
+): Promise<{ outcome: PageOutcome; chunks: number }> {
+  const { title, sections } = await scrapePage(browser, url);
+  const contentHash = hashContent(JSON.stringify({ title, sections }));
+
+  const existing = await store.getPage(tenantId, url);
+  if (existing?.contentHash === contentHash && existing.embeddingModel === embeddingModelId) {
+    return { outcome: 'unchanged', chunks: 0 };
+  }
+
+  const chunks = chunkSections(sections);
+  const embeddings = await embedTexts(chunks.map(chunkEmbeddingText));
+  await store.replacePage(
+    tenantId,
+    { url, title, contentHash, embeddingModel: embeddingModelId },
+    chunks.map((chunk, i) => ({
+      chunkIndex: i,
+      text: chunk.text,
+      headingPath: chunk.headingPath,
+      embedding: embeddings[i],
+    })),
+  );
+
+  console.log(`Indexed: ${url}`);
+  return { outcome: existing ? 'updated' : 'added', chunks: chunks.length };
+}
+
+// -------- Remove pages no longer on the site --------
+// Pages outside the crawl's include/exclude patterns were never looked for, so they are left alone.
+async function purgeMissingPages(
+  store: VectorStore,
+  tenantId: string,
+  baseUrl: string,
+  found: Set<string>,
+  { include, exclude }: CrawlOptions,
+) {
+  const { origin } = new URL(baseUrl);
+  const removed = (await store.listPageUrls(tenantId, origin))
+    .filter(url => !found.has(url) && matchesPatterns(url, include, exclude));
+  if (removed.length === 0) return 0;
+
+  await store.purgePages(tenantId, removed);
+
+  console.log('Removed pages:', removed);
+  return removed.length;
+}
+
+// -------- Index multiple pages --------
+export async function indexSite(
+  tenantId: string,
+  baseUrl: string,
+  { onProgress, store = defaultVectorStore, ...crawlOptions }: IndexSiteOptions = {},
+) {
+  const { signal } = crawlOptions;
+  const startedAt = Date.now();
+  const progress: IndexProgress = {
+    pagesDiscovered: 0,
+    pagesIndexed: 0,
+    pagesAdded: 0,
+    pagesUpdated: 0,
+    pagesUnchanged: 0,
+    pagesRemoved: 0,
+    chunksEmbedded: 0,
+    errors: [],
+  };
+  const embeddings = await embeddingStatus(tenantId, store);
+  if (embeddings.needsReembedding) {
+    console.warn(`Embedding model is now ${embeddings.current}; pages embedded with other models will be re-embedded.`);
+  }
+
+  const browser = await puppeteer.launch({ headless: true, args: ['--no-sandbox', '--disable-setuid-sandbox'] });
+  try {
+    const { urls, crawlDelayMs } = await crawlSite(browserVisitor(browser), baseUrl, crawlOptions);
+    progress.pagesDiscovered = urls.length;
+    await onProgress?.(progress);
+
+    const throttle = createThrottle(crawlDelayMs);
+    await runPool(urls, crawlOptions.concurrency ?? DEFAULT_CONCURRENCY, async url => {
+      await throttle.wait();
+      try {
+        const { outcome, chunks } = await indexPage(browser, tenantId, url, store);
+        progress.pagesIndexed++;
+        progress.chunksEmbedded += chunks;
+        if (outcome === 'added') progress.pagesAdded++;
+        else if (outcome === 'updated') progress.pagesUpdated++;
+        else progress.pagesUnchanged++;
+      } catch (err) {
+        console.error('Error indexing', url, err);
+        progress.errors.push({ url, message: err instanceof Error ? err.message : String(err) });
+      }
+      await onProgress?.(progress);
+    }, signal);
+
+    // Only trust the crawl for removals when it ran to completion, found the site and was not cut off by maxPages.
+    const reachedLimit = urls.length >= (crawlOptions.maxPages ?? DEFAULT_MAX_PAGES);
+    if (!signal?.aborted && urls.length > 0 && !reachedLimit) {
+      progress.pagesRemoved = await purgeMissingPages(store, tenantId, baseUrl, new Set(urls), crawlOptions);
+      await onProgress?.(progress);
+    }
+
+    // Other server instances notice the new index version on their own; this one drops its answers now.
+    if (progress.pagesAdded + progress.pagesUpdated + progress.pagesRemoved > 0) await invalidateAnswers(tenantId);
+
+    const seconds = (Date.now() - startedAt) / 1000;
+    console.log(
+      `Indexed ${progress.pagesIndexed} pages and embedded ${progress.chunksEmbedded} chunks in ${seconds.toFixed(1)}s ` +
+      `(${(progress.pagesIndexed / seconds).toFixed(2)} pages/s, ${(progress.chunksEmbedded / seconds).toFixed(2)} chunks/s)`,
+    );
+    return progress;
+  } finally {
+    await browser.close();
+  }
+}
@@ -0,0 +1,149 @@
+import { isUuid, supabase } from '../supabase';
+import type { CrawlOptions } from './crawl';
+import { indexSite, IndexError, IndexProgress } from './indexer';
+
+export type IndexJobOptions = Omit<CrawlOptions, 'signal'>;
+
+export type IndexJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type IndexJob = {
+  id: string;
+  tenant_id: string;
+  site_url: string;
+  options: IndexJobOptions;
+  status: IndexJobStatus;
+  pages_discovered: number;
+  pages_indexed: number;
+  pages_added: number;
+  pages_updated: number;
+  pages_unchanged: number;
+  pages_removed: number;
+  chunks_embedded: number;
+  errors: IndexError[];
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+};
+
+const ACTIVE_STATUSES: IndexJobStatus[] = ['queued', 'running'];
+
+// A job that has not reported progress for this long is assumed to have died with its instance.
+const STALE_JOB_MS = 15 * 60 * 1000;
+const CANCEL_POLL_MS = 5000;
+// Postgres error code for a duplicate key.
+const UNIQUE_VIOLATION = '23505';
+
+// -------- Job queries --------
+export async function getIndexJob(id: string) {
+  if (!isUuid(id)) return null;
+  const { data, error } = await supabase.from('index_jobs').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data as IndexJob | null;
+}
+
+export async function listIndexJobs(tenantId?: string, limit = 20) {
+  let query = supabase.from('index_jobs').select('*');
+  if (tenantId) query = query.eq('tenant_id', tenantId);
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []) as IndexJob[];
+}
+
+async function updateActiveJob(id: string, fields: Partial<IndexJob>) {
+  const { error } = await supabase
+    .from('index_jobs')
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .in('status', ACTIVE_STATUSES);
+  if (error) throw error;
+}
+
+async function failStaleJobs(tenantId: string, siteUrl: string) {
+  const cutoff = new Date(Date.now() - STALE_JOB_MS).toISOString();
+  const { error } = await supabase
+    .from('index_jobs')
+    .update({ status: 'failed', error: 'Job stopped reporting progress', finished_at: new Date().toISOString() })
+    .eq('tenant_id', tenantId)
+    .eq('site_url', siteUrl)
+    .in('status', ACTIVE_STATUSES)
+    .lt('updated_at', cutoff);
+  if (error) throw error;
+}
+
+// -------- Job lifecycle --------
+// Returns null when an indexing job for the site is already in progress. A unique index on active jobs
+// (see the index_jobs_active_site migration) decides between concurrent requests.
+export async function createIndexJob(tenantId: string, siteUrl: string, options: IndexJobOptions = {}) {
+  await failStaleJobs(tenantId, siteUrl);
+
+  const { data, error } = await supabase
+    .from('index_jobs')
+    .insert([{ tenant_id: tenantId, site_url: siteUrl, options, status: 'queued' }])
+    .select()
+    .single();
+  if (error?.code === UNIQUE_VIOLATION) return null;
+  if (error) throw error;
+  return data as IndexJob;
+}
+
+// Returns false when the job does not exist or has already finished.
+export async function cancelIndexJob(id: string) {
+  if (!isUuid(id)) return false;
+  const { data, error } = await supabase
+    .from('index_jobs')
+    .update({ status: 'cancelled', finished_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .in('status', ACTIVE_STATUSES)
+    .select('id');
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+export async function runIndexJob(job: IndexJob) {
+  // Cancellation is written to the jobs table, so it reaches us even when requested from another instance.
+  const controller = new AbortController();
+  const poll = setInterval(() => {
+    getIndexJob(job.id)
+      .then(current => { if (current?.status === 'cancelled') controller.abort(); })
+      .catch(console.error);
+  }, CANCEL_POLL_MS);
+
+  // Pages finish concurrently, so writes are chained and each one reads the counters when it runs:
+  // an older snapshot can never land after a newer one.
+  let pendingWrite = Promise.resolve();
+  const saveProgress = (progress: IndexProgress) => {
+    pendingWrite = pendingWrite
+      .then(() => updateActiveJob(job.id, {
+        pages_discovered: progress.pagesDiscovered,
+        pages_indexed: progress.pagesIndexed,
+        pages_added: progress.pagesAdded,
+        pages_updated: progress.pagesUpdated,
+        pages_unchanged: progress.pagesUnchanged,
+        pages_removed: progress.pagesRemoved,
+        chunks_embedded: progress.chunksEmbedded,
+        errors: progress.errors,
+      }))
+      .catch(err => console.error(`Error saving progress for job ${job.id}:`, err));
+    return pendingWrite;
+  };
+
+  try {
+    await updateActiveJob(job.id, { status: 'running', started_at: new Date().toISOString() });
+    await indexSite(job.tenant_id, job.site_url, { ...job.options, signal: controller.signal, onProgress: saveProgress });
+    await updateActiveJob(job.id, { status: 'completed', finished_at: new Date().toISOString() });
+    console.log(`✅ Indexing job ${job.id} complete!`);
+  } catch (err) {
+    console.error(`Indexing job ${job.id} failed:`, err);
+    await updateActiveJob(job.id, {
+      status: 'failed',
+      error: err instanceof Error ? err.message : String(err),
+      finished_at: new Date().toISOString(),
+    }).catch(console.error);
+  } finally {
+    clearInterval(poll);
+  }
+}
@@ -0,0 +1,16 @@
+// -------- Worker pool --------
+// Runs `worker` over `items` with at most `concurrency` in flight. Workers are expected to handle their own errors.
+export async function runPool<T>(
+  items: T[],
+  concurrency: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal,
+) {
+  let index = 0;
+  const next = async () => {
+    while (index < items.length && !signal?.aborted) {
+      await worker(items[index++]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, next));
+}
@@ -0,0 +1,100 @@
+// -------- robots.txt --------
+export const CRAWLER_USER_AGENT = 'SwariseBot/1.0';
+const CRAWLER_TOKEN = 'swarisebot';
+
+type Rule = { allow: boolean; pattern: string; regex: RegExp };
+
+export type RobotsRules = {
+  isAllowed: (url: string) => boolean;
+  crawlDelayMs: number;
+  sitemaps: string[];
+};
+
+const ALLOW_ALL: Omit<RobotsRules, 'sitemaps'> = { isAllowed: () => true, crawlDelayMs: 0 };
+const DISALLOW_ALL: Omit<RobotsRules, 'sitemaps'> = { isAllowed: () => false, crawlDelayMs: 0 };
+
+function patternToRegex(pattern: string) {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+export function parseRobots(content: string): RobotsRules {
+  type Group = { agents: string[]; rules: Rule[]; crawlDelay?: number };
+  const groups: Group[] = [];
+  const sitemaps: string[] = [];
+  let current: Group | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const sep = line.indexOf(':');
+    if (sep === -1) continue;
+    const key = line.slice(0, sep).trim().toLowerCase();
+    const value = line.slice(sep + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+    lastWasAgent = false;
+
+    if (key === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (current && (key === 'allow' || key === 'disallow')) {
+      // An empty Disallow means "allow everything" and contributes no rule.
+      if (value) current.rules.push({ allow: key === 'allow', pattern: value, regex: patternToRegex(value) });
+    } else if (current && key === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) current.crawlDelay = seconds;
+    }
+  }
+
+  // A group names the crawler by its product token ("SwariseBot", or "SwariseBot/1.0" with a version).
+  const group =
+    groups.find(g => g.agents.some(a => a.split('/')[0] === CRAWLER_TOKEN)) ??
+    groups.find(g => g.agents.includes('*'));
+  if (!group) return { ...ALLOW_ALL, sitemaps };
+
+  return {
+    sitemaps,
+    crawlDelayMs: (group.crawlDelay ?? 0) * 1000,
+    isAllowed: (url: string) => {
+      const { pathname, search } = new URL(url);
+      const path = pathname + search;
+      // The most specific (longest) matching rule wins; Allow wins ties.
+      let best: Rule | null = null;
+      for (const rule of group.rules) {
+        if (!rule.regex.test(path)) continue;
+        if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+          best = rule;
+        }
+      }
+      return best ? best.allow : true;
+    },
+  };
+}
+
+// Follows RFC 9309: a missing robots.txt allows everything, an unreachable one disallows everything.
+export async function fetchRobots(origin: string): Promise<RobotsRules> {
+  try {
+    const res = await fetch(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': CRAWLER_USER_AGENT },
+      signal: AbortSignal.timeout(10000),
+    });
+    if (res.ok) return parseRobots(await res.text());
+    if (res.status >= 400 && res.status < 500) return { ...ALLOW_ALL, sitemaps: [] };
+    console.warn(`robots.txt for ${origin} returned ${res.status}, not crawling`);
+  } catch (err) {
+    console.warn(`robots.txt for ${origin} unreachable, not crawling:`, err);
+  }
+  return { ...DISALLOW_ALL, sitemaps: [] };
+}
@@ -0,0 +1,96 @@
+import type { Browser } from 'puppeteer';
+
+export type BlockType = 'paragraph' | 'list_item' | 'table_row';
+
+export type ContentBlock = { type: BlockType; text: string };
+
+// Content under one heading. headingPath runs from the outermost heading down, e.g. ["Services", "Web Development"].
+export type PageSection = { headingPath: string[]; blocks: ContentBlock[] };
+
+export type ScrapedPage = { title: string; sections: PageSection[] };
+
+// -------- Scrape page content --------
+// Keeps the heading structure, lists and tables, and drops navigation, footers and cookie banners.
+export async function scrapePage(browser: Browser, url: string): Promise<ScrapedPage> {
+  const page = await browser.newPage();
+  try {
+    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    return await page.evaluate(() => {
+      const BOILERPLATE = [
+        'script', 'style', 'noscript', 'svg', 'img', 'iframe', 'template', 'button', 'form',
+        'nav', 'footer', 'aside', 'body > header',
+        '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="dialog"]',
+        '[aria-hidden="true"]', '[hidden]',
+      ].join(',');
+      // Cookie banners: fixed or sticky overlays whose id or class mentions cookies or consent, and the ids of
+      // common consent plugins. Page wrappers can carry such classes too (WordPress Cookie Notice puts
+      // `cookies-not-set` on <body>), so html, body, main and anything holding main are never removed.
+      const COOKIE_BANNER = /cookie|consent|gdpr/i;
+      const COOKIE_BANNER_IDS = '#cookie-notice, #cookie-law-info-bar, #CybotCookiebotDialog, #onetrust-consent-sdk, #moove_gdpr_cookie_info_bar, #cmplz-cookiebanner-container';
+      const isPageWrapper = (el: Element) =>
+        el.matches('html, body, main, [role="main"]') || el.querySelector('main, [role="main"]') !== null;
+      const BLOCK = 'h1,h2,h3,h4,h5,h6,p,div,section,article,main,header,ul,ol,li,table,tr,blockquote,pre,dl,dt,dd,figure,figcaption';
+
+      document.querySelectorAll(BOILERPLATE).forEach(el => el.remove());
+      document.querySelectorAll<HTMLElement>('body [id], body [class]').forEach(el => {
+        if (!el.isConnected || isPageWrapper(el)) return;
+        const named = COOKIE_BANNER.test(el.id) || COOKIE_BANNER.test(el.getAttribute('class') ?? '');
+        const overlay = ['fixed', 'sticky'].includes(getComputedStyle(el).position);
+        if ((named && overlay) || el.matches(COOKIE_BANNER_IDS)) el.remove();
+      });
+
+      const clean = (value: string | null) => (value ?? '').replace(/\s+/g, ' ').trim();
+      const headings: { level: number; text: string }[] = [];
+      const sections: { headingPath: string[]; blocks: { type: 'paragraph' | 'list_item' | 'table_row'; text: string }[] }[] = [
+        { headingPath: [], blocks: [] },
+      ];
+      const push = (type: 'paragraph' | 'list_item' | 'table_row', value: string | null) => {
+        const text = clean(value);
+        if (text) sections[sections.length - 1].blocks.push({ type, text });
+      };
+
+      const walk = (parent: Node) => {
+        for (const node of Array.from(parent.childNodes)) {
+          if (node.nodeType === Node.TEXT_NODE) {
+            push('paragraph', node.textContent);
+            continue;
+          }
+          if (!(node instanceof HTMLElement)) continue;
+
+          const tag = node.tagName.toLowerCase();
+          if (/^h[1-6]$/.test(tag)) {
+            const text = clean(node.textContent);
+            if (!text) continue;
+            const level = Number(tag[1]);
+            while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+            headings.push({ level, text });
+            sections.push({ headingPath: headings.map(h => h.text), blocks: [] });
+          } else if (tag === 'li') {
+            // Nested lists become their own items after the parent item.
+            const item = node.cloneNode(true) as HTMLElement;
+            item.querySelectorAll('ul, ol').forEach(list => list.remove());
+            push('list_item', item.textContent);
+            node.querySelectorAll(':scope > ul, :scope > ol').forEach(walk);
+          } else if (tag === 'tr') {
+            const cells = Array.from(node.querySelectorAll('th, td')).map(cell => clean(cell.textContent)).filter(Boolean);
+            push('table_row', cells.join(' | '));
+          } else if (node.querySelector(BLOCK)) {
+            walk(node);
+          } else {
+            push('paragraph', node.textContent);
+          }
+        }
+      };
+
+      walk(document.querySelector('main, [role="main"]') ?? document.body);
+
+      const ogTitle = document.querySelector<HTMLMetaElement>('meta[property="og:title"]')?.content;
+      return {
+        title: clean(ogTitle || document.title),
+        sections: sections.filter(section => section.blocks.length > 0),
+      };
+    });
+  } finally {
+    await page.close();
+  }
+}
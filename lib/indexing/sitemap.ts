@@ -0,0 +1,55 @@
+import { CRAWLER_USER_AGENT } from './robots';
+
+// -------- sitemap.xml --------
+const MAX_SITEMAPS = 50;
+
+function decodeXml(value: string) {
+  return value
+    .replace(/^<!\[CDATA\[|\]\]>$/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    .trim();
+}
+
+function extractLocs(xml: string, container: 'sitemap' | 'url') {
+  const blocks = xml.match(new RegExp(`<${container}\\b[^>]*>[\\s\\S]*?</${container}>`, 'gi')) ?? [];
+  return blocks
+    .map(block => block.match(/<loc>([\s\S]*?)<\/loc>/i)?.[1])
+    .filter((loc): loc is string => !!loc)
+    .map(decodeXml);
+}
+
+export function parseSitemap(xml: string) {
+  if (/<sitemapindex\b/i.test(xml)) return { sitemaps: extractLocs(xml, 'sitemap'), urls: [] };
+  return { sitemaps: [], urls: extractLocs(xml, 'url') };
+}
+
+// Walks sitemap indexes breadth-first and returns page URLs, stopping once `limit` is reached.
+export async function fetchSitemapUrls(sitemapUrls: string[], limit: number) {
+  const queue = [...sitemapUrls];
+  const visited = new Set<string>();
+  const urls: string[] = [];
+
+  while (queue.length > 0 && visited.size < MAX_SITEMAPS && urls.length < limit) {
+    const sitemapUrl = queue.shift()!;
+    if (visited.has(sitemapUrl)) continue;
+    visited.add(sitemapUrl);
+
+    try {
+      const res = await fetch(sitemapUrl, {
+        headers: { 'User-Agent': CRAWLER_USER_AGENT },
+        signal: AbortSignal.timeout(15000),
+      });
+      if (!res.ok) continue;
+      const parsed = parseSitemap(await res.text());
+      queue.push(...parsed.sitemaps);
+      urls.push(...parsed.urls);
+    } catch (err) {
+      console.warn(`Error reading sitemap ${sitemapUrl}:`, err);
+    }
+  }
+  return urls.slice(0, limit);
+}
@@ -0,0 +1,39 @@
+// -------- URL normalization --------
+const TRACKING_PARAMS = /^(utm_\w+|gclid|dclid|fbclid|msclkid|mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi|ref)$/i;
+
+const NON_HTML_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|svg|ico|zip|gz|rar|mp3|mp4|webm|mov|avi|docx?|xlsx?|pptx?|css|js|json|xml|txt)$/i;
+
+// Canonical form used as the page identity: no fragment, no tracking params, sorted query, no trailing slash.
+export function normalizeUrl(href: string, base?: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(href, base);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  url.hash = '';
+  for (const key of [...url.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(key)) url.searchParams.delete(key);
+  }
+  url.searchParams.sort();
+
+  url.pathname = url.pathname.replace(/\/{2,}/g, '/');
+  if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+    url.pathname = url.pathname.replace(/\/+$/, '');
+  }
+  return url.toString();
+}
+
+export function isHtmlLike(url: string) {
+  return !NON_HTML_EXTENSIONS.test(new URL(url).pathname);
+}
+
+// Include/exclude patterns are regular expressions matched against the path and query string.
+export function matchesPatterns(url: string, include: string[] = [], exclude: string[] = []) {
+  const { pathname, search } = new URL(url);
+  const target = pathname + search;
+  if (include.length > 0 && !include.some(p => new RegExp(p).test(target))) return false;
+  return !exclude.some(p => new RegExp(p).test(target));
+}
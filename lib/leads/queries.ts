@@ -0,0 +1,127 @@
+import type { UIMessage } from 'ai';
+import { isUuid, supabase } from '../supabase';
+import { getConversationMessages } from '../conversations';
+
+export const LEAD_STATUSES = ['new', 'contacted', 'closed'] as const;
+export type LeadStatus = typeof LEAD_STATUSES[number];
+
+export type Lead = {
+  id: string;
+  tenant_id: string;
+  conversation_id: string | null;
+  created_at: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  inquiry_type: string | null;
+  message: string | null;
+  contact_method: string | null;
+  best_time: string | null;
+  agree: boolean | null;
+  newsletter: boolean | null;
+  details: Record<string, unknown> | null;
+  status: LeadStatus;
+  status_updated_at: string | null;
+};
+
+export type LeadFilters = {
+  tenantId?: string;
+  inquiryType?: string;
+  contactMethod?: string;
+  status?: LeadStatus;
+  newsletter?: boolean;
+  // Inclusive dates, YYYY-MM-DD.
+  from?: string;
+  to?: string;
+};
+
+export const LEADS_PAGE_SIZE = 50;
+
+function nextDay(date: string) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString();
+}
+
+function filteredLeads(filters: LeadFilters) {
+  let query = supabase.from('user_leads').select('*', { count: 'exact' });
+  if (filters.tenantId) query = query.eq('tenant_id', filters.tenantId);
+  if (filters.inquiryType) query = query.eq('inquiry_type', filters.inquiryType);
+  if (filters.contactMethod) query = query.eq('contact_method', filters.contactMethod);
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.newsletter !== undefined) query = query.eq('newsletter', filters.newsletter);
+  if (filters.from) query = query.gte('created_at', `${filters.from}T00:00:00Z`);
+  if (filters.to) query = query.lt('created_at', nextDay(filters.to));
+  return query.order('created_at', { ascending: false });
+}
+
+// -------- Lead queries --------
+export async function listLeads(filters: LeadFilters, page = 0) {
+  const { data, count, error } = await filteredLeads(filters)
+    .range(page * LEADS_PAGE_SIZE, (page + 1) * LEADS_PAGE_SIZE - 1);
+  if (error) throw error;
+  return { leads: (data ?? []) as Lead[], total: count ?? 0 };
+}
+
+// Every matching lead, for CSV export.
+export async function exportLeads(filters: LeadFilters) {
+  const leads: Lead[] = [];
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await filteredLeads(filters).range(from, from + 999);
+    if (error) throw error;
+    leads.push(...((data ?? []) as Lead[]));
+    if (!data || data.length < 1000) return leads;
+  }
+}
+
+export async function getLead(id: string) {
+  if (!isUuid(id)) return null;
+  const { data, error } = await supabase.from('user_leads').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data as Lead | null;
+}
+
+// The lead plus the chat that produced it, when it was captured in a stored conversation.
+export async function getLeadWithConversation(id: string): Promise<{ lead: Lead; messages: UIMessage[] } | null> {
+  const lead = await getLead(id);
+  if (!lead) return null;
+  const messages = lead.conversation_id ? await getConversationMessages(lead.conversation_id) : [];
+  return { lead, messages };
+}
+
+// Returns false when there is no such lead.
+export async function updateLeadStatus(id: string, status: LeadStatus) {
+  if (!isUuid(id)) return false;
+  const { data, error } = await supabase
+    .from('user_leads')
+    .update({ status, status_updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('id');
+  if (error) throw error;
+  return data.length > 0;
+}
+
+// Reads filters from the dashboard's query string; unknown or empty values are ignored.
+export function parseLeadFilters(params: Record<string, string | string[] | undefined>): LeadFilters {
+  const get = (key: string) => {
+    const value = params[key];
+    return (Array.isArray(value) ? value[0] : value) || undefined;
+  };
+  const date = (key: string) => {
+    const value = get(key);
+    return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+  };
+  const status = get('status');
+  const newsletter = get('newsletter');
+
+  return {
+    tenantId: get('tenant'),
+    inquiryType: get('inquiryType'),
+    contactMethod: get('contactMethod'),
+    status: LEAD_STATUSES.includes(status as LeadStatus) ? status as LeadStatus : undefined,
+    newsletter: newsletter === 'yes' ? true : newsletter === 'no' ? false : undefined,
+    from: date('from'),
+    to: date('to'),
+  };
+}
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import type { LeadField } from '../tenants';
+
+// Field that records consent to be contacted; a lead without it is rejected.
+export const CONSENT_FIELD = 'agree';
+
+// Digits with an optional leading +, 7 to 15 digits once spaces, dashes, dots and brackets are removed.
+export const PHONE_PATTERN = /^\+?\d{7,15}$/;
+export const normalizePhone = (value: string) => value.replace(/[\s().-]/g, '');
+
+export type LeadInput = Record<string, string | boolean>;
+
+const MAX_TEXT = 200;
+const MAX_TEXTAREA = 5000;
+
+function fieldSchema(field: LeadField) {
+  if (field.type === 'checkbox') {
+    const checkbox = z.boolean().default(false);
+    return field.required || field.name === CONSENT_FIELD
+      ? checkbox.refine(v => v, `Please tick "${field.label}"`)
+      : checkbox;
+  }
+
+  let text = z.string().trim().max(field.type === 'textarea' ? MAX_TEXTAREA : MAX_TEXT, `${field.label} is too long`);
+  if (field.required) text = text.min(1, `${field.label} is required`);
+
+  const present = (check: (v: string) => boolean) => (v: string) => v === '' || check(v);
+  if (field.type === 'email') {
+    return text.refine(present(v => z.email().safeParse(v).success), 'Invalid email address').transform(v => v.toLowerCase());
+  }
+  if (field.type === 'tel') {
+    return text.transform(normalizePhone).refine(present(v => PHONE_PATTERN.test(v)), 'Invalid phone number');
+  }
+  if (field.type === 'select' && field.options) {
+    const values = field.options.map(o => o.value);
+    return text.refine(present(v => values.includes(v)), `${field.label}: choose one of the listed options`);
+  }
+  return text;
+}
+
+// -------- Lead schema --------
+// Validates a submission against the tenant's lead form. Unknown fields are dropped, empty optional fields
+// are omitted, and the consent checkbox must be ticked.
+export function buildLeadSchema(fields: LeadField[]) {
+  const shape = Object.fromEntries(fields.map(field => [field.name, field.required || field.type === 'checkbox'
+    ? fieldSchema(field)
+    : fieldSchema(field).optional()]));
+
+  return z.object(shape).transform(lead =>
+    Object.fromEntries(Object.entries(lead).filter(([, v]) => v !== '' && v !== undefined)) as LeadInput);
+}
+
+// Loose shape of the same fields for the chat tool: the model may only know some of them yet, so validation
+// happens in the lead service where errors can be reported back to the user.
+export function buildLeadToolSchema(fields: LeadField[]) {
+  return z.object(Object.fromEntries(fields.map(field => [
+    field.name,
+    (field.type === 'checkbox' ? z.boolean() : z.string()).optional().describe(
+      field.options ? `${field.label} (one of: ${field.options.map(o => o.value).join(', ')})` : field.label,
+    ),
+  ])));
+}
+
+// Validates one answer, for the conversational flow that collects fields one at a time.
+export function parseLeadField(field: LeadField, value: unknown) {
+  const result = fieldSchema(field).safeParse(value);
+  return result.success
+    ? { ok: true as const, value: result.data as string | boolean }
+    : { ok: false as const, error: result.error.issues[0]?.message ?? `Invalid ${field.label}` };
+}
+
+// Field errors keyed by field name, first message per field.
+export function leadFieldErrors(error: z.ZodError) {
+  const errors: Record<string, string> = {};
+  for (const issue of error.issues) {
+    const key = String(issue.path[0] ?? 'form');
+    errors[key] ??= issue.message;
+  }
+  return errors;
+}
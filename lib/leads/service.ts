@@ -0,0 +1,90 @@
+import { supabase } from '../supabase';
+import type { TenantConfig } from '../tenants';
+import type { Lead } from './queries';
+import { buildLeadSchema, leadFieldErrors } from './schema';
+
+export type LeadResult =
+  | { status: 'saved'; lead: Lead }
+  // Same email or phone already submitted within the dedup window; nothing new was stored.
+  | { status: 'duplicate'; lead: Lead }
+  | { status: 'invalid'; errors: Record<string, string> };
+
+const DEDUP_WINDOW_HOURS = Number(process.env.LEAD_DEDUP_WINDOW_HOURS ?? 24);
+
+// Known form fields map to user_leads columns; anything else a tenant adds to its form goes into `details`.
+const LEAD_COLUMNS: Record<string, string> = {
+  fullName: 'name',
+  email: 'email',
+  phone: 'phone',
+  company: 'company',
+  inquiryType: 'inquiry_type',
+  message: 'message',
+  contactMethod: 'contact_method',
+  bestTime: 'best_time',
+  agree: 'agree',
+  newsletter: 'newsletter',
+};
+
+function leadRow(tenantId: string, conversationId: string | null, form: Record<string, unknown>) {
+  const row: Record<string, unknown> = { tenant_id: tenantId, conversation_id: conversationId };
+  const details: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(form)) {
+    if (LEAD_COLUMNS[key]) row[LEAD_COLUMNS[key]] = value;
+    else details[key] = value;
+  }
+  if (Object.keys(details).length > 0) row.details = details;
+  return row;
+}
+
+async function findRecentDuplicate(tenantId: string, email?: unknown, phone?: unknown) {
+  const matches = [
+    typeof email === 'string' && `email.eq."${email}"`,
+    typeof phone === 'string' && `phone.eq."${phone}"`,
+  ].filter(Boolean);
+  if (matches.length === 0 || DEDUP_WINDOW_HOURS <= 0) return null;
+
+  const since = new Date(Date.now() - DEDUP_WINDOW_HOURS * 3600_000).toISOString();
+  const { data, error } = await supabase
+    .from('user_leads')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .gte('created_at', since)
+    .or(matches.join(','))
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data as Lead | null;
+}
+
+// -------- Lead capture --------
+// Single entry point for both the contact form and the chat tool: validates the submission against the
+// tenant's lead form, skips recent duplicates and stores the rest. Storage errors are thrown.
+export async function submitLead(tenant: TenantConfig, conversationId: string | null, input: unknown): Promise<LeadResult> {
+  const parsed = buildLeadSchema(tenant.leadForm.fields).safeParse(input);
+  if (!parsed.success) return { status: 'invalid', errors: leadFieldErrors(parsed.error) };
+  const form = parsed.data;
+
+  const duplicate = await findRecentDuplicate(tenant.id, form.email, form.phone);
+  if (duplicate) return { status: 'duplicate', lead: duplicate };
+
+  const { data, error } = await supabase
+    .from('user_leads')
+    .insert([leadRow(tenant.id, conversationId, form)])
+    .select('*')
+    .single();
+  if (error) throw error;
+  return { status: 'saved', lead: data as Lead };
+}
+
+// What the visitor is told about a submission.
+export function leadResultMessage(result: LeadResult) {
+  switch (result.status) {
+    case 'saved':
+      return `✅ Thanks${result.lead.name ? ` ${result.lead.name}` : ''}! Your inquiry has been received.`;
+    case 'duplicate':
+      return `Thanks${result.lead.name ? ` ${result.lead.name}` : ''}, we already have your inquiry and will be in touch soon.`;
+    case 'invalid':
+      return `Please check your details: ${Object.values(result.errors).join('; ')}.`;
+  }
+}
@@ -0,0 +1,117 @@
+import { isToolUIPart, type UIMessage } from 'ai';
+import { z } from 'zod';
+import type { LeadField } from '../tenants';
+import { CONSENT_FIELD, parseLeadField, type LeadInput } from './schema';
+
+// Contact details collected so far in the conversation.
+export type LeadDraft = {
+  values: LeadInput;
+  // Optional fields the customer chose not to give.
+  skipped: string[];
+  // 'confirming' once nothing is left to ask and the summary has been handed to the assistant.
+  stage: 'collecting' | 'confirming';
+};
+
+const leadDraftSchema = z.object({
+  values: z.record(z.string(), z.union([z.string(), z.boolean()])),
+  skipped: z.array(z.string()),
+  stage: z.enum(['collecting', 'confirming']),
+});
+
+export const emptyLeadDraft = (): LeadDraft => ({ values: {}, skipped: [], stage: 'collecting' });
+
+// Fields the assistant asks for, in form order: required ones, the consent checkbox and optional ones marked `ask`.
+const askedFields = (fields: LeadField[]) =>
+  fields.filter(f => f.required || f.ask || f.name === CONSENT_FIELD);
+
+const canSkip = (field: LeadField) => !field.required && field.name !== CONSENT_FIELD;
+
+// -------- Draft state --------
+// The draft travels in the output of the latest collectForm call, so it lives in the conversation history
+// (and in stored conversations) rather than in server memory.
+export function findLeadDraft(messages: UIMessage[]): LeadDraft {
+  for (const message of [...messages].reverse()) {
+    for (const part of [...message.parts].reverse()) {
+      if (isToolUIPart(part) && part.type === 'tool-collectForm' && part.state === 'output-available') {
+        const draft = leadDraftSchema.safeParse((part.output as { draft?: unknown } | null)?.draft);
+        return draft.success ? draft.data : emptyLeadDraft();
+      }
+    }
+  }
+  return emptyLeadDraft();
+}
+
+// The assistant may answer a select field with the option's label instead of its value.
+function optionValue(field: LeadField, value: unknown) {
+  if (typeof value !== 'string' || !field.options) return value;
+  const option = field.options.find(o => [o.value, o.label].some(v => v.toLowerCase() === value.trim().toLowerCase()));
+  return option?.value ?? value;
+}
+
+// Merges the customer's answers into the draft. Each answer is validated on its own; rejected answers are
+// reported and leave the previous value in place. Any change sends the draft back to 'collecting'.
+export function applyLeadAnswers(
+  fields: LeadField[],
+  draft: LeadDraft,
+  answers: Record<string, unknown>,
+  skip: string[] = [],
+) {
+  const values = { ...draft.values };
+  const errors: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(answers)) {
+    const field = fields.find(f => f.name === name);
+    if (!field || value === undefined || value === '') continue;
+    const parsed = parseLeadField(field, optionValue(field, value));
+    if (parsed.ok) values[name] = parsed.value;
+    else errors[name] = parsed.error;
+  }
+
+  const skipped = [...new Set([...draft.skipped, ...skip])]
+    .filter(name => !(name in values) && fields.some(f => f.name === name && canSkip(f)));
+
+  return { draft: { values, skipped, stage: 'collecting' } as LeadDraft, errors };
+}
+
+function formatValue(field: LeadField, value: string | boolean) {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return field.options?.find(o => o.value === value)?.label ?? value;
+}
+
+// -------- Next step --------
+// What the assistant should do with the draft: ask for the next missing field, or show the summary for
+// confirmation once every field has been answered or skipped.
+export function describeLeadDraft(fields: LeadField[], draft: LeadDraft, errors: Record<string, string> = {}) {
+  const next = askedFields(fields).find(f => !(f.name in draft.values) && !draft.skipped.includes(f.name));
+
+  if (next) {
+    return {
+      status: 'collecting' as const,
+      draft: { ...draft, stage: 'collecting' as const },
+      errors,
+      nextField: {
+        name: next.name,
+        label: next.label,
+        type: next.type,
+        optional: canSkip(next),
+        options: next.options?.map(o => o.label),
+      },
+      text: Object.keys(errors).length > 0
+        ? 'Some answers were rejected; explain why and ask for them again.'
+        : `Ask the customer for: ${next.label}.`,
+    };
+  }
+
+  const summary = fields
+    .filter(f => f.name in draft.values)
+    .map(f => `• ${f.label}: ${formatValue(f, draft.values[f.name])}`)
+    .join('\n');
+
+  return {
+    status: 'confirming' as const,
+    draft: { ...draft, stage: 'confirming' as const },
+    errors,
+    summary,
+    text: 'Show this summary and ask the customer to confirm it or correct any detail.',
+  };
+}
@@ -0,0 +1,15 @@
+// Request limits shared by the chat API and the widget, so the widget can stop oversized input early.
+
+// Longest single message a visitor can send, in characters.
+export const MAX_MESSAGE_CHARS = 4000;
+
+// Most recent messages of the history that a chat request carries and the model sees. Older ones stay on
+// screen and in the stored conversation.
+export const MAX_MESSAGES = 100;
+
+// Largest request body accepted by /api/chat, in bytes.
+export const MAX_BODY_BYTES = 512 * 1024;
+
+// Lead form bot checks: a hidden field people leave empty, and a minimum time between opening and submitting.
+export const HONEYPOT_FIELD = 'website';
+export const MIN_FORM_FILL_MS = 3000;
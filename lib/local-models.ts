@@ -0,0 +1,143 @@
+import type { EmbeddingModel, LanguageModel } from 'ai';
+
+type EmbeddingModelInstance = Exclude<EmbeddingModel<string>, string>;
+
+type LocalEmbeddingOptions = {
+  dimensions?: number;
+  // Simulated round-trip per call, so throughput can be measured without a real provider.
+  latencyMs?: number;
+  maxEmbeddingsPerCall?: number;
+};
+
+function hashToken(token: string) {
+  let hash = 2166136261;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+// Deterministic bag-of-words embedding: texts that share words get similar vectors.
+export function localEmbedding(text: string, dimensions = 768) {
+  const vector = new Array<number>(dimensions).fill(0);
+  for (const token of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    const hash = hashToken(token);
+    vector[hash % dimensions] += hash & 1 ? 1 : -1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
+
+// -------- Local stand-in embedding model --------
+export function createLocalEmbeddingModel({
+  dimensions = 768,
+  latencyMs = 0,
+  maxEmbeddingsPerCall = 100,
+}: LocalEmbeddingOptions = {}): EmbeddingModelInstance {
+  return {
+    specificationVersion: 'v2',
+    provider: 'local',
+    modelId: `local-hash-${dimensions}`,
+    maxEmbeddingsPerCall,
+    supportsParallelCalls: true,
+    async doEmbed({ values }) {
+      if (latencyMs > 0) await new Promise(r => setTimeout(r, latencyMs));
+      return { embeddings: values.map(value => localEmbedding(value, dimensions)) };
+    },
+  };
+}
+
+// -------- Local stand-in chat model --------
+type LanguageModelInstance = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelInstance['doGenerate']>[0];
+
+type LocalChatOptions = {
+  // Reply when no retrieved snippet shares a word with the question.
+  fallback?: string;
+  // Most sentences quoted in one answer.
+  maxSentences?: number;
+};
+
+const snippetHeader = /^\[(\d+)\] .*\(https?:\/\/[^)\s]+\)/;
+const contentWords = (text: string) =>
+  new Set((text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(w => w.length > 2));
+
+// Snippets in the system prompt, in the "[n] Title (url) — section" format of the source registry.
+function promptSnippets(system: string) {
+  const snippets: { id: number; text: string }[] = [];
+  let current: { id: number; lines: string[] } | null = null;
+  for (const line of system.split('\n')) {
+    const header = line.match(snippetHeader);
+    if (header) {
+      current = { id: Number(header[1]), lines: [] };
+      snippets.push({ id: current.id, text: '' });
+    } else if (current && line.trim()) {
+      current.lines.push(line);
+      snippets[snippets.length - 1].text = current.lines.join('\n');
+    } else {
+      current = null;
+    }
+  }
+  return snippets;
+}
+
+// Deterministic extractive answer: the snippet lines sharing the most words with the last user message,
+// each cited with its source number.
+function localAnswer(prompt: CallOptions['prompt'], { fallback = "I don't have that information.", maxSentences = 2 }: LocalChatOptions) {
+  const system = prompt.filter(m => m.role === 'system').map(m => m.content).join('\n');
+  const lastUser = [...prompt].reverse().find(m => m.role === 'user');
+  const question = contentWords(
+    lastUser?.content.map(part => (part.type === 'text' ? part.text : '')).join(' ') ?? '',
+  );
+
+  const candidates = promptSnippets(system).flatMap(({ id, text }) =>
+    text.split(/\n|(?<=[.!?])\s+/).map(sentence => ({
+      id,
+      sentence: sentence.trim(),
+      overlap: [...contentWords(sentence)].filter(w => question.has(w)).length,
+    })),
+  );
+  const best = candidates
+    .filter(c => c.overlap > 0 && c.sentence)
+    .sort((a, b) => b.overlap - a.overlap)
+    .slice(0, maxSentences);
+
+  return best.length > 0 ? best.map(c => `${c.sentence} [${c.id}]`).join(' ') : fallback;
+}
+
+// Answers from the retrieved snippets in its system prompt without calling a provider, for offline
+// evaluation. It never calls tools.
+export function createLocalChatModel(options: LocalChatOptions = {}): LanguageModelInstance {
+  const usage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'local',
+    modelId: 'local-extractive',
+    supportedUrls: {},
+    async doGenerate({ prompt }) {
+      return {
+        content: [{ type: 'text', text: localAnswer(prompt, options) }],
+        finishReason: 'stop',
+        usage,
+        warnings: [],
+      };
+    },
+    async doStream({ prompt }) {
+      const text = localAnswer(prompt, options);
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: 'stream-start', warnings: [] });
+            controller.enqueue({ type: 'text-start', id: '0' });
+            controller.enqueue({ type: 'text-delta', id: '0', delta: text });
+            controller.enqueue({ type: 'text-end', id: '0' });
+            controller.enqueue({ type: 'finish', finishReason: 'stop', usage });
+            controller.close();
+          },
+        }),
+      };
+    },
+  };
+}
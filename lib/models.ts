@@ -0,0 +1,97 @@
+import { google } from '@ai-sdk/google';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { EmbeddingModel, LanguageModel } from 'ai';
+import { createLocalChatModel, createLocalEmbeddingModel } from './local-models';
+
+// -------- Providers --------
+// CHAT_PROVIDER and EMBEDDING_PROVIDER pick where models come from, CHAT_MODEL and EMBEDDING_MODEL override the
+// provider's default model. Providers are only set up when selected, so unused ones need no API key.
+export type ProviderName = 'google' | 'openai' | 'openai-compatible' | 'local';
+
+type ModelProvider = {
+  defaultChatModel: string;
+  defaultEmbeddingModel: string;
+  chat(modelId: string): LanguageModel;
+  embedding(modelId: string): EmbeddingModel<string>;
+};
+
+// Stored vectors are vector(768) in Postgres; models with configurable output size are asked for this many.
+export const EMBEDDING_DIMENSIONS = Number(process.env.EMBEDDING_DIMENSIONS ?? 768);
+
+function requireEnv(name: string) {
+  const value = process.env[name];
+  if (!value) throw new Error(`Missing required environment variable: ${name}`);
+  return value;
+}
+
+const providers: Record<ProviderName, () => ModelProvider> = {
+  google: () => {
+    requireEnv('GOOGLE_GENERATIVE_AI_API_KEY');
+    return {
+      defaultChatModel: 'gemini-2.5-flash',
+      defaultEmbeddingModel: 'text-embedding-004',
+      chat: modelId => google(modelId),
+      embedding: modelId => google.embedding(modelId),
+    };
+  },
+  openai: () => {
+    const openai = createOpenAI({ apiKey: requireEnv('OPENAI_API_KEY') });
+    return {
+      defaultChatModel: 'gpt-4o-mini',
+      defaultEmbeddingModel: 'text-embedding-3-small',
+      chat: modelId => openai(modelId),
+      embedding: modelId => openai.embedding(modelId),
+    };
+  },
+  // Any server speaking the OpenAI chat completions and embeddings API, e.g. Ollama at http://localhost:11434/v1.
+  'openai-compatible': () => {
+    const compatible = createOpenAI({
+      name: 'openai-compatible',
+      baseURL: requireEnv('OPENAI_COMPATIBLE_BASE_URL'),
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY ?? 'none',
+    });
+    return {
+      defaultChatModel: 'llama3.1',
+      defaultEmbeddingModel: 'nomic-embed-text',
+      chat: modelId => compatible.chat(modelId),
+      embedding: modelId => compatible.embedding(modelId),
+    };
+  },
+  // Deterministic stand-ins for offline runs, benchmarks and evaluation.
+  local: () => ({
+    defaultChatModel: 'local-extractive',
+    defaultEmbeddingModel: `local-hash-${EMBEDDING_DIMENSIONS}`,
+    chat: () => createLocalChatModel(),
+    embedding: () => createLocalEmbeddingModel({
+      dimensions: EMBEDDING_DIMENSIONS,
+      latencyMs: Number(process.env.LOCAL_EMBEDDING_LATENCY_MS ?? 0),
+    }),
+  }),
+};
+
+function getProvider(name: string) {
+  if (!(name in providers)) {
+    throw new Error(`Unknown model provider "${name}"; expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+  return providers[name as ProviderName]();
+}
+
+// -------- Chat model --------
+const chatProvider = getProvider(process.env.CHAT_PROVIDER ?? 'google');
+export const chatModel = chatProvider.chat(process.env.CHAT_MODEL ?? chatProvider.defaultChatModel);
+
+// -------- Embedding model --------
+const embeddingProviderName = process.env.EMBEDDING_PROVIDER ?? 'google';
+const embeddingProvider = getProvider(embeddingProviderName);
+const embeddingModelName = process.env.EMBEDDING_MODEL ?? embeddingProvider.defaultEmbeddingModel;
+
+export const embeddingModel = embeddingProvider.embedding(embeddingModelName);
+
+// Recorded with every indexed page: vectors from different models are not comparable, so pages embedded
+// with another model have to be re-embedded.
+export const embeddingModelId = `${embeddingProviderName}:${embeddingModelName}`;
+
+// Asks OpenAI's text-embedding-3 models for vectors the size of the database column.
+export const embeddingProviderOptions = embeddingProviderName === 'openai'
+  ? { openai: { dimensions: EMBEDDING_DIMENSIONS } }
+  : undefined;
@@ -0,0 +1,68 @@
+import { generateObject, type LanguageModel } from 'ai';
+import { z } from 'zod';
+import { chatModel } from '../models';
+import { matchCannedAnswer, mentionsForbiddenTerm, type Policy } from './rules';
+
+export type PolicyDecision =
+  | { action: 'generate' }
+  | { action: 'reply'; reason: 'canned' | 'forbidden' | 'off_topic'; text: string };
+
+export type ClassifyOptions = {
+  model?: LanguageModel;
+  // The assistant's previous message, so short answers to its questions are read in context.
+  previousAssistantText?: string;
+};
+
+// -------- Intent classification --------
+// Asks the model which policy, if any, a message falls under. Returns null when the call fails.
+export async function classifyMessage(policy: Policy, text: string, { model = chatModel, previousAssistantText }: ClassifyOptions = {}) {
+  try {
+    const { object } = await generateObject({
+      model,
+      schema: z.object({
+        category: z.enum(['on_topic', 'canned', 'forbidden', 'off_topic']),
+        cannedAnswer: z.number().int().nullable(),
+      }),
+      prompt: [
+        `Classify the latest message sent to the website assistant of ${policy.siteName}.`,
+        '• "canned": it asks one of the numbered questions below; set cannedAnswer to its number.',
+        policy.forbidden.topics.length > 0 && `• "forbidden": it asks about any of these topics: ${policy.forbidden.topics.join(', ')}.`,
+        `• "off_topic": it has nothing to do with ${policy.siteName}, its services or contacting it (jokes, general knowledge, personal questions).`,
+        '• "on_topic": anything else, including greetings that are not listed below, answers to the assistant\'s questions, contact details and confirmations.',
+        policy.cannedAnswers.map((c, i) => `${i}. The user asks ${c.when}`).join('\n'),
+        previousAssistantText && `The assistant's previous message:\n${previousAssistantText}`,
+        `Latest message:\n${text}`,
+      ].filter(Boolean).join('\n\n'),
+    });
+    return object;
+  } catch (err) {
+    console.error('Policy classification error:', err);
+    return null;
+  }
+}
+
+// -------- Pre-generation check --------
+// Decides whether a message is answered by policy instead of the model: exact-answer phrases and forbidden
+// terms are matched locally, then the classifier (unless disabled) catches paraphrases and off-topic requests.
+// Anything the checks cannot decide goes to the model.
+export async function evaluateInput(
+  policy: Policy,
+  text: string,
+  options: ClassifyOptions & { classify?: boolean } = {},
+): Promise<PolicyDecision> {
+  if (!text.trim()) return { action: 'generate' };
+
+  const canned = matchCannedAnswer(policy, text);
+  if (canned) return { action: 'reply', reason: 'canned', text: canned.answer };
+  if (mentionsForbiddenTerm(policy, text)) return { action: 'reply', reason: 'forbidden', text: policy.forbidden.reply };
+
+  if (options.classify === false) return { action: 'generate' };
+  const result = await classifyMessage(policy, text, options);
+
+  if (result?.category === 'canned' && result.cannedAnswer !== null && policy.cannedAnswers[result.cannedAnswer]) {
+    return { action: 'reply', reason: 'canned', text: policy.cannedAnswers[result.cannedAnswer].answer };
+  }
+  if (result?.category === 'forbidden') return { action: 'reply', reason: 'forbidden', text: policy.forbidden.reply };
+  if (result?.category === 'off_topic') return { action: 'reply', reason: 'off_topic', text: policy.refusal };
+  return { action: 'generate' };
+}
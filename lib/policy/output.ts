@@ -0,0 +1,61 @@
+import type { UIDataTypes, UIMessageChunk } from 'ai';
+import { phrasePattern, type Policy } from './rules';
+
+// Replaces a forbidden term in 'redact' mode.
+export const REDACTED = '[removed]';
+
+// The text chunks the filter rewrites. They are the same whatever the stream's metadata and data parts.
+type TextChunk = Extract<UIMessageChunk, { type: 'text-delta' | 'text-end' }>;
+const isTextChunk = <METADATA, DATA_PARTS extends UIDataTypes>(
+  chunk: UIMessageChunk<METADATA, DATA_PARTS>,
+): chunk is TextChunk => chunk.type === 'text-delta' || chunk.type === 'text-end';
+
+// -------- Output filter --------
+// Runs over the UI message stream before it reaches the client. In 'redact' mode forbidden terms are replaced
+// as the text streams; the last few characters of each text part are held back so a term split across deltas
+// is still caught. In 'block' mode each text part is held until it ends and replaced with the policy reply
+// if it mentions a forbidden term, which gives up streaming for safety. Chunks keep the stream's message type.
+export function createOutputFilter<METADATA = unknown, DATA_PARTS extends UIDataTypes = UIDataTypes>(
+  policy: Policy,
+): TransformStream<UIMessageChunk<METADATA, DATA_PARTS>, UIMessageChunk<METADATA, DATA_PARTS>> {
+  const pattern = phrasePattern(policy.forbidden.terms, 'gi');
+  if (!pattern) return new TransformStream();
+
+  const { filter, reply } = policy.forbidden;
+  // Longest text a match can still be completing; matches may contain runs of whitespace, hence the margin.
+  const holdBack = Math.max(...policy.forbidden.terms.map(t => t.length)) + 16;
+  const pending = new Map<string, string>();
+
+  // Takes the part of a buffered text that is safe to send, extended past any match it would cut in half.
+  function release(id: string, final: boolean) {
+    const text = pending.get(id) ?? '';
+    let cut = final ? text.length : Math.max(0, text.length - holdBack);
+    for (const match of text.matchAll(pattern!)) {
+      if (match.index < cut && match.index + match[0].length > cut) cut = match.index + match[0].length;
+    }
+    pending.set(id, text.slice(cut));
+    return text.slice(0, cut).replace(pattern!, REDACTED);
+  }
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      if (isTextChunk(chunk)) {
+        const text: TextChunk = chunk;
+        if (text.type === 'text-delta') {
+          pending.set(text.id, (pending.get(text.id) ?? '') + text.delta);
+          if (filter === 'block') return;
+          const delta = release(text.id, false);
+          if (delta) controller.enqueue({ ...text, delta });
+          return;
+        }
+
+        const buffered = pending.get(text.id) ?? '';
+        const delta = filter === 'block' ? (buffered.search(pattern) >= 0 ? reply : buffered) : release(text.id, true);
+        pending.delete(text.id);
+        if (delta) controller.enqueue({ type: 'text-delta', id: text.id, delta });
+      }
+
+      controller.enqueue(chunk);
+    },
+  });
+}
@@ -0,0 +1,44 @@
+import type { CannedAnswer, TenantConfig } from '../tenants';
+
+// -------- Policy --------
+// The guardrails of one tenant, read from its config: fixed answers, topics the bot must not discuss,
+// and how forbidden terms are handled when they slip into a generated answer.
+export type Policy = {
+  siteName: string;
+  refusal: string;
+  cannedAnswers: CannedAnswer[];
+  forbidden: {
+    topics: string[];
+    // Topics plus any extra terms; these are removed from the output.
+    terms: string[];
+    reply: string;
+    filter: 'redact' | 'block';
+  };
+};
+
+export function tenantPolicy(tenant: TenantConfig): Policy {
+  const { topics, terms = [], reply, filter = 'redact' } = tenant.forbiddenTopics;
+  return {
+    siteName: tenant.name,
+    refusal: tenant.refusal,
+    cannedAnswers: tenant.cannedAnswers,
+    forbidden: { topics, terms: [...topics, ...terms], reply, filter },
+  };
+}
+
+// Case-insensitive whole-phrase match that tolerates any whitespace between words.
+export function phrasePattern(phrases: string[], flags = 'i') {
+  const alternatives = phrases
+    .filter(p => p.trim())
+    .map(p => p.trim().split(/\s+/).map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'));
+  return alternatives.length > 0 ? new RegExp(`\\b(?:${alternatives.join('|')})\\b`, flags) : null;
+}
+
+// Canned answer whose `match` phrases appear in the message.
+export function matchCannedAnswer(policy: Policy, text: string) {
+  return policy.cannedAnswers.find(c => c.match && phrasePattern(c.match)?.test(text)) ?? null;
+}
+
+export function mentionsForbiddenTerm(policy: Policy, text: string) {
+  return phrasePattern(policy.forbidden.terms)?.test(text) ?? false;
+}
@@ -0,0 +1,26 @@
+// -------- Prompt templates --------
+// Templates use {{name}} for variables, {{#name}}...{{/name}} for text kept only when `name` is non-empty,
+// and {{^name}}...{{/name}} for text kept only when it is empty.
+export type PromptTemplate = {
+  version: string;
+  // What changed in this version, for whoever compares versions later.
+  description: string;
+  template: string;
+};
+
+export type PromptVariables = Record<string, string>;
+
+// Renders a template. A variable the template uses but `variables` lacks is an error, so a typo in a
+// template fails loudly instead of sending "{{siteNmae}}" to the model.
+export function renderTemplate(template: string, variables: PromptVariables) {
+  const value = (name: string) => {
+    if (!(name in variables)) throw new Error(`Prompt variable "${name}" is not defined`);
+    return variables[name];
+  };
+
+  const withSections = template.replace(
+    /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g,
+    (_, kind: string, name: string, body: string) => ((value(name) !== '') === (kind === '#') ? body : ''),
+  );
+  return withSections.replace(/\{\{(\w+)\}\}/g, (_, name: string) => value(name)).replace(/\n{3,}/g, '\n\n').trim();
+}
@@ -0,0 +1,84 @@
+import { createHash } from 'node:crypto';
+import { DEFAULT_PROMPT_VERSION, systemPrompts } from '@/prompts/system/versions';
+import { renderTemplate, type PromptVariables } from './prompt-template';
+import type { TenantConfig } from './tenants';
+
+// Instructions for the collectForm tool; they follow the tool rather than the prompt version.
+function leadFlow(tenant: TenantConfig) {
+  return `Collecting contact details:
+• When the user shows buying intent (asks about pricing, quotes, demos or hiring ${tenant.name}, or wants to be contacted), offer to take their details so the team can follow up.
+• If they accept, call collectForm with action "update" and any details they already gave, then ask for the field in "nextField". Ask one question at a time and send each answer back with action "update". For fields with options, offer those options.
+• If an answer is rejected (see "errors"), say why and ask again. If the user corrects an earlier answer, send the new value with action "update". If they decline an optional field, send its name in "skip".
+• When collectForm returns a summary, show it exactly and ask the user to confirm. Call collectForm with action "confirm" only after the user confirms.
+• If the user no longer wants to share their details, call collectForm with action "cancel".`;
+}
+
+export function promptVariables(tenant: TenantConfig, retrievedText: string): PromptVariables {
+  return {
+    siteName: tenant.name,
+    persona: tenant.persona,
+    refusal: tenant.refusal,
+    cannedAnswers: tenant.cannedAnswers.map(c => `• If the user asks ${c.when}: reply exactly "${c.answer}"`).join('\n'),
+    forbiddenTopics: tenant.forbiddenTopics.topics.map(t => `"${t}"`).join(', '),
+    forbiddenReply: tenant.forbiddenTopics.reply,
+    leadFlow: leadFlow(tenant),
+    retrievedContext: retrievedText,
+  };
+}
+
+// -------- Version selection --------
+export function getSystemPrompt(version: string) {
+  const prompt = systemPrompts.find(p => p.version === version);
+  if (!prompt) throw new Error(`Unknown prompt version "${version}"`);
+  return prompt;
+}
+
+// A tenant pins one version, or splits sessions between versions by weight for an A/B comparison. The split
+// hashes the session id, so a visitor keeps the same version for the whole conversation.
+export function selectPromptVersion(tenant: TenantConfig, sessionId?: string | null) {
+  const setting = tenant.promptVersion ?? DEFAULT_PROMPT_VERSION;
+  if (typeof setting === 'string') return setting;
+
+  const weights = Object.entries(setting).filter(([, weight]) => weight > 0);
+  if (weights.length === 0) return DEFAULT_PROMPT_VERSION;
+  const total = weights.reduce((sum, [, weight]) => sum + weight, 0);
+  const bucket = sessionId
+    ? createHash('sha256').update(sessionId).digest().readUInt32BE(0) / 0x1_0000_0000
+    : Math.random();
+
+  let threshold = 0;
+  for (const [version, weight] of weights) {
+    threshold += weight / total;
+    if (bucket < threshold) return version;
+  }
+  return weights[weights.length - 1][0];
+}
+
+// -------- System prompt --------
+export function buildSystemPrompt(tenant: TenantConfig, retrievedText: string, version = DEFAULT_PROMPT_VERSION) {
+  return renderTemplate(getSystemPrompt(version).template, promptVariables(tenant, retrievedText));
+}
+
+// -------- Template check --------
+// Renders every version for every tenant, with and without retrieved context, and checks that the versions
+// tenants select exist. Returns the problems found; `pnpm eval` and the tests fail on any, so a broken
+// template never reaches the chat route.
+export function checkPromptTemplates(tenants: TenantConfig[]) {
+  const problems: string[] = [];
+  for (const tenant of tenants) {
+    const setting = tenant.promptVersion ?? DEFAULT_PROMPT_VERSION;
+    for (const version of typeof setting === 'string' ? [setting] : Object.keys(setting)) {
+      if (!systemPrompts.some(p => p.version === version)) problems.push(`${tenant.id}: unknown prompt version "${version}"`);
+    }
+    for (const { version } of systemPrompts) {
+      for (const retrievedText of ['', 'Source [1]: example']) {
+        try {
+          buildSystemPrompt(tenant, retrievedText, version);
+        } catch (err) {
+          problems.push(`${tenant.id}, ${version}: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+    }
+  }
+  return [...new Set(problems)];
+}
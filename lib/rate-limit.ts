@@ -0,0 +1,76 @@
+import { supabase } from './supabase';
+
+// -------- Stores --------
+// A store counts hits per key in fixed windows. The in-memory store is per server instance (fine for a
+// single instance, local development and tests); the Supabase store shares counts across instances.
+export type RateLimitStore = {
+  hit(key: string, windowMs: number): Promise<{ count: number; resetAt: number }>;
+};
+
+export function createMemoryStore(): RateLimitStore {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  return {
+    async hit(key, windowMs) {
+      const now = Date.now();
+      if (windows.size > 10_000) {
+        for (const [k, w] of windows) if (w.resetAt <= now) windows.delete(k);
+      }
+
+      const current = windows.get(key);
+      const window = current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs };
+      windows.set(key, window);
+      return window;
+    },
+  };
+}
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export function createSupabaseStore(): RateLimitStore {
+  let lastCleanupAt = 0;
+
+  return {
+    async hit(key, windowMs) {
+      if (Date.now() - lastCleanupAt > CLEANUP_INTERVAL_MS) {
+        lastCleanupAt = Date.now();
+        supabase.from('rate_limits').delete().lt('reset_at', new Date().toISOString())
+          .then(({ error }) => { if (error) console.error('Rate limit cleanup error:', error); });
+      }
+
+      const { data, error } = await supabase.rpc('rate_limit_hit', { p_key: key, p_window_ms: windowMs }).single();
+      if (error) throw error;
+      const row = data as { count: number; reset_at: string };
+      return { count: row.count, resetAt: new Date(row.reset_at).getTime() };
+    },
+  };
+}
+
+// RATE_LIMIT_STORE=supabase shares limits between server instances; the default keeps them in memory.
+export const defaultRateLimitStore: RateLimitStore =
+  process.env.RATE_LIMIT_STORE === 'supabase' ? createSupabaseStore() : createMemoryStore();
+
+// -------- Limiter --------
+export type RateLimitResult = { allowed: boolean; remaining: number; retryAfterMs: number };
+
+// Allows `limit` hits per key every `windowMs`. If the store fails, requests are let through rather than
+// taking the chat down with it.
+export function createRateLimiter(name: string, limit: number, windowMs: number, store = defaultRateLimitStore) {
+  return {
+    async check(key: string): Promise<RateLimitResult> {
+      try {
+        const { count, resetAt } = await store.hit(`${name}:${key}`, windowMs);
+        return {
+          allowed: count <= limit,
+          remaining: Math.max(0, limit - count),
+          retryAfterMs: count <= limit ? 0 : Math.max(0, resetAt - Date.now()),
+        };
+      } catch (e) {
+        console.error(`Rate limit store error (${name}):`, e);
+        return { allowed: true, remaining: limit, retryAfterMs: 0 };
+      }
+    },
+  };
+}
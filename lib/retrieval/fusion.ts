@@ -0,0 +1,46 @@
+import type { RetrievedChunk } from './search';
+
+// Standard RRF constant: dampens the weight of top ranks so one list cannot dominate.
+const RRF_K = 60;
+
+// Chunks from the same page sharing this much of their vocabulary are treated as the same passage.
+const DUPLICATE_OVERLAP = 0.6;
+
+const chunkKey = (chunk: RetrievedChunk) => `${chunk.url}#${chunk.chunkIndex}`;
+
+// -------- Reciprocal rank fusion --------
+// Each list contributes 1 / (k + rank) for every chunk it contains; the sum becomes the chunk's score.
+export function reciprocalRankFusion(lists: RetrievedChunk[][], k = RRF_K): RetrievedChunk[] {
+  const fused = new Map<string, RetrievedChunk>();
+  for (const list of lists) {
+    list.forEach((chunk, rank) => {
+      const key = chunkKey(chunk);
+      const existing = fused.get(key);
+      const score = (existing?.score ?? 0) + 1 / (k + rank + 1);
+      fused.set(key, { ...(existing ?? chunk), score });
+    });
+  }
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+function words(text: string) {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+}
+
+function overlap(a: Set<string>, b: Set<string>) {
+  let shared = 0;
+  for (const word of a) if (b.has(word)) shared++;
+  return shared / Math.max(1, Math.min(a.size, b.size));
+}
+
+// -------- De-duplication --------
+// Keeps the best-ranked of any chunks from the same URL that largely repeat each other.
+export function dedupeOverlapping(chunks: RetrievedChunk[]) {
+  const kept: { chunk: RetrievedChunk; words: Set<string> }[] = [];
+  for (const chunk of chunks) {
+    const chunkWords = words(chunk.text);
+    const duplicate = kept.some(k => k.chunk.url === chunk.url && overlap(k.words, chunkWords) >= DUPLICATE_OVERLAP);
+    if (!duplicate) kept.push({ chunk, words: chunkWords });
+  }
+  return kept.map(k => k.chunk);
+}
@@ -0,0 +1,35 @@
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { chatModel } from '../models';
+import type { RetrievedChunk } from './search';
+
+// -------- LLM reranking --------
+// Asks the chat model to score each candidate's relevance and reorders by that score.
+// Falls back to the incoming order if the model call fails.
+export async function rerankWithLLM(query: string, chunks: RetrievedChunk[], topK: number) {
+  if (chunks.length <= 1) return chunks.slice(0, topK);
+
+  try {
+    const { object } = await generateObject({
+      model: chatModel,
+      schema: z.object({
+        scores: z.array(z.object({ id: z.number().int(), score: z.number().min(0).max(10) })),
+      }),
+      prompt: [
+        'Score how well each passage answers the search query, from 0 (irrelevant) to 10 (directly answers it).',
+        `Query: ${query}`,
+        ...chunks.map((chunk, i) => `Passage ${i}:\n${chunk.text}`),
+      ].join('\n\n'),
+    });
+
+    const scores = new Map(object.scores.map(s => [s.id, s.score]));
+    return chunks
+      .map((chunk, i) => ({ chunk, i, score: scores.get(i) ?? 0 }))
+      .sort((a, b) => b.score - a.score || a.i - b.i)
+      .slice(0, topK)
+      .map(r => r.chunk);
+  } catch (err) {
+    console.error('Rerank error:', err);
+    return chunks.slice(0, topK);
+  }
+}
@@ -0,0 +1,70 @@
+import { generateObject, type LanguageModel } from 'ai';
+import { z } from 'zod';
+import { chatModel } from '../models';
+
+export type ConversationTurn = { role: 'user' | 'assistant'; text: string };
+
+export type RewrittenQuery = {
+  original: string;
+  // Standalone search query: the latest turn with its subject filled in from the conversation.
+  query: string;
+  // Alternative phrasings searched alongside it (multi-query expansion).
+  variants: string[];
+};
+
+type RewriteOptions = {
+  model?: LanguageModel;
+  // Extra phrasings to ask for; 0 turns expansion off.
+  expansions?: number;
+};
+
+// QUERY_REWRITE=off searches the latest message as typed; QUERY_EXPANSION asks for that many extra phrasings.
+const REWRITE = process.env.QUERY_REWRITE !== 'off';
+const EXPANSIONS = Number(process.env.QUERY_EXPANSION ?? 0);
+
+// Only the recent part of the conversation matters for resolving "it" or "the second one".
+const HISTORY_TURNS = 6;
+const MAX_TURN_CHARS = 600;
+
+// -------- Query condensation --------
+// Rewrites the latest turn into a query that can be searched on its own, using the conversation before it.
+// Opening messages without expansion are searched as typed; if the model call fails, so is the latest turn.
+export async function rewriteQuery(
+  latest: string,
+  history: ConversationTurn[],
+  { model = chatModel, expansions = EXPANSIONS }: RewriteOptions = {},
+): Promise<RewrittenQuery> {
+  const unchanged = { original: latest, query: latest, variants: [] };
+  const recent = history.filter(turn => turn.text.trim()).slice(-HISTORY_TURNS);
+  if (!REWRITE || !latest.trim() || (recent.length === 0 && expansions <= 0)) return unchanged;
+
+  try {
+    const { object } = await generateObject({
+      model,
+      schema: z.object({
+        query: z.string(),
+        variants: z.array(z.string()),
+      }),
+      prompt: [
+        'Rewrite the latest message of a website chat as a standalone search query for the website\'s content.',
+        'Resolve pronouns and references ("it", "that service", "the second one") using the conversation. Keep names, ' +
+        'product terms and numbers exactly. If the message already stands on its own, return it unchanged.',
+        expansions > 0
+          ? `Also give up to ${expansions} differently worded queries for the same need in "variants".`
+          : 'Leave "variants" empty.',
+        recent.length > 0 &&
+          `Conversation:\n${recent.map(turn => `${turn.role === 'user' ? 'Customer' : 'Assistant'}: ${turn.text.slice(0, MAX_TURN_CHARS)}`).join('\n')}`,
+        `Latest message:\n${latest}`,
+      ].filter(Boolean).join('\n\n'),
+    });
+
+    const query = object.query.trim() || latest;
+    const variants = [...new Set(object.variants.map(v => v.trim()))]
+      .filter(v => v && v.toLowerCase() !== query.toLowerCase())
+      .slice(0, Math.max(0, expansions));
+    return { original: latest, query, variants };
+  } catch (err) {
+    console.error('Query rewrite error:', err);
+    return unchanged;
+  }
+}
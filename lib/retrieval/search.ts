@@ -0,0 +1,109 @@
+import { embedQuery } from '../embeddings';
+import { embeddingModelId } from '../models';
+import { defaultVectorStore, embeddingStatus, type ChunkMatch, type VectorStore } from './store';
+import { dedupeOverlapping, reciprocalRankFusion } from './fusion';
+import { rerankWithLLM } from './rerank';
+import type { RewrittenQuery } from './rewrite';
+
+export type RetrievedChunk = {
+  url: string;
+  title: string | null;
+  chunkIndex: number;
+  headingPath: string[];
+  text: string;
+  // Cosine similarity between the query and chunk embeddings.
+  similarity: number;
+  // Reciprocal rank fusion score across the vector and keyword result lists.
+  score: number;
+};
+
+type SearchOptions = {
+  minSimilarity?: number;
+  rerank?: boolean;
+  store?: VectorStore;
+};
+
+const MIN_SIMILARITY = Number(process.env.RETRIEVAL_MIN_SIMILARITY ?? 0.45);
+const RERANK = process.env.RETRIEVAL_RERANK === 'llm';
+// Logs each search's queries and results. They contain what visitors typed, so it is for debugging only.
+const DEBUG = process.env.RETRIEVAL_DEBUG === 'on';
+
+// Tenants already checked for vectors from another embedding model, once per process.
+const checkedTenants = new WeakMap<VectorStore, Set<string>>();
+
+function warnIfStale(tenantId: string, store: VectorStore) {
+  const checked = checkedTenants.get(store) ?? new Set<string>();
+  checkedTenants.set(store, checked);
+  if (checked.has(tenantId)) return;
+  checked.add(tenantId);
+
+  embeddingStatus(tenantId, store)
+    .then(({ current, stored, needsReembedding }) => {
+      if (needsReembedding) {
+        console.warn(`Tenant ${tenantId} has pages embedded with ${stored.map(model => model ?? 'an unknown model').join(', ')} but the current model is ${current}; vector search skips those pages until re-indexing re-embeds them.`);
+      }
+    })
+    .catch(err => console.error('Embedding model check failed:', err));
+}
+
+function toChunk(row: ChunkMatch): RetrievedChunk {
+  return {
+    url: row.url,
+    title: row.title,
+    chunkIndex: row.chunk_index,
+    headingPath: row.heading_path ?? [],
+    text: row.text,
+    similarity: row.similarity,
+    score: 0,
+  };
+}
+
+// -------- Search --------
+// Hybrid retrieval: embedding matches and Postgres full-text matches fused by rank, so exact terms
+// (product names, phone numbers, acronyms) are found even when their embeddings are not close.
+export async function searchDocuments(
+  tenantId: string,
+  query: string,
+  topK = 5,
+  { minSimilarity = MIN_SIMILARITY, rerank = RERANK, store = defaultVectorStore }: SearchOptions = {},
+): Promise<RetrievedChunk[]> {
+  warnIfStale(tenantId, store);
+  const candidates = Math.max(topK * 4, 20);
+  const queryEmb = await embedQuery(query);
+
+  const [vectorRows, keywordRows] = await Promise.all([
+    store.matchChunks(tenantId, embeddingModelId, queryEmb, candidates),
+    store.keywordSearch(tenantId, embeddingModelId, query, queryEmb, candidates),
+  ]);
+
+  // Chunks containing every query term are kept even when their embedding is a weak match.
+  const exact = new Set(keywordRows.filter(r => r.exact).map(r => `${r.url}#${r.chunk_index}`));
+  const fused = reciprocalRankFusion([vectorRows.map(toChunk), keywordRows.map(toChunk)])
+    .filter(chunk => chunk.similarity >= minSimilarity || exact.has(`${chunk.url}#${chunk.chunkIndex}`));
+
+  const unique = dedupeOverlapping(fused);
+  return rerank ? rerankWithLLM(query, unique.slice(0, topK * 2), topK) : unique.slice(0, topK);
+}
+
+// -------- Rewritten queries --------
+// Searches the standalone query and any expanded variants and fuses the result lists by rank. With
+// RETRIEVAL_DEBUG=on, logs the queries alongside what they found.
+export async function searchRewritten(
+  tenantId: string,
+  rewritten: RewrittenQuery,
+  topK = 5,
+  options: SearchOptions = {},
+): Promise<RetrievedChunk[]> {
+  const queries = [rewritten.query, ...rewritten.variants];
+  const lists = await Promise.all(queries.map(query => searchDocuments(tenantId, query, topK, options)));
+  const results = lists.length === 1 ? lists[0] : dedupeOverlapping(reciprocalRankFusion(lists)).slice(0, topK);
+
+  if (DEBUG) console.log('Retrieval:', JSON.stringify({
+    tenantId,
+    original: rewritten.original,
+    query: rewritten.query,
+    variants: rewritten.variants,
+    results: results.map(chunk => ({ url: chunk.url, chunkIndex: chunk.chunkIndex, similarity: Number(chunk.similarity.toFixed(3)) })),
+  }));
+  return results;
+}
@@ -0,0 +1,245 @@
+import { embeddingModelId } from '../models';
+import { supabase } from '../supabase';
+
+// A candidate chunk as returned by a store's searches.
+export type ChunkMatch = {
+  url: string;
+  title: string | null;
+  chunk_index: number;
+  heading_path: string[] | null;
+  text: string;
+  similarity: number;
+  // Keyword matches only: the chunk contains every query term.
+  exact?: boolean;
+};
+
+// A page's chunks with their embeddings, as written by the indexer.
+export type PageChunk = {
+  chunkIndex: number;
+  text: string;
+  headingPath: string[];
+  embedding: number[];
+};
+
+export type IndexedPage = {
+  url: string;
+  title: string | null;
+  contentHash: string;
+  // Provider and model the chunks were embedded with, e.g. "google:text-embedding-004".
+  embeddingModel: string | null;
+};
+
+// -------- Vector stores --------
+// Where pages and their chunk embeddings live. searchDocuments reads candidates from it: the chunks nearest to
+// the query embedding, and full-text matches for the query. The indexer keeps it in step with the site.
+// VECTOR_STORE picks the implementation: supabase (pgvector, the default) or memory.
+// Searches take the query's embedding model: vector matches come only from pages embedded with it, and keyword
+// matches from other pages get a similarity of 0.
+export type VectorStore = {
+  matchChunks(tenantId: string, embeddingModel: string, embedding: number[], count: number): Promise<ChunkMatch[]>;
+  keywordSearch(tenantId: string, embeddingModel: string, query: string, embedding: number[], count: number): Promise<ChunkMatch[]>;
+  getPage(tenantId: string, url: string): Promise<IndexedPage | null>;
+  // Swaps a page's chunks at once, so readers never see a half-indexed page.
+  replacePage(tenantId: string, page: IndexedPage, chunks: PageChunk[]): Promise<void>;
+  // Indexed page URLs on the origin (scheme, host and port), e.g. https://example.com.
+  listPageUrls(tenantId: string, origin: string): Promise<string[]>;
+  purgePages(tenantId: string, urls: string[]): Promise<void>;
+  // Distinct embedding models among the tenant's indexed pages.
+  embeddingModels(tenantId: string): Promise<(string | null)[]>;
+  // Changes whenever the tenant's indexed pages do; caches keyed on it go stale after re-indexing.
+  indexVersion(tenantId: string): Promise<string>;
+};
+
+export const supabaseVectorStore: VectorStore = {
+  async matchChunks(tenantId, embeddingModel, embedding, count) {
+    const { data, error } = await supabase.rpc('match_documents', {
+      p_tenant_id: tenantId,
+      p_embedding_model: embeddingModel,
+      query_embedding: embedding,
+      match_count: count,
+    });
+    if (error) throw error;
+    return (data as ChunkMatch[]) ?? [];
+  },
+  async keywordSearch(tenantId, embeddingModel, query, embedding, count) {
+    const { data, error } = await supabase.rpc('keyword_search_documents', {
+      p_tenant_id: tenantId,
+      p_embedding_model: embeddingModel,
+      query_text: query,
+      query_embedding: embedding,
+      match_count: count,
+    });
+    if (error) throw error;
+    return (data as ChunkMatch[]) ?? [];
+  },
+  async getPage(tenantId, url) {
+    const { data, error } = await supabase
+      .from('pages')
+      .select('url, title, content_hash, embedding_model')
+      .eq('tenant_id', tenantId)
+      .eq('url', url)
+      .maybeSingle();
+    if (error) throw error;
+    return data && {
+      url: data.url,
+      title: data.title,
+      contentHash: data.content_hash,
+      embeddingModel: data.embedding_model,
+    };
+  },
+  async replacePage(tenantId, page, chunks) {
+    const { error } = await supabase.rpc('replace_page_chunks', {
+      p_tenant_id: tenantId,
+      p_url: page.url,
+      p_title: page.title,
+      p_content_hash: page.contentHash,
+      p_embedding_model: page.embeddingModel,
+      p_chunks: chunks.map(chunk => ({
+        chunk_index: chunk.chunkIndex,
+        text: chunk.text,
+        heading_path: chunk.headingPath,
+        embedding: chunk.embedding,
+      })),
+    });
+    if (error) throw error;
+  },
+  async listPageUrls(tenantId, origin) {
+    // The trailing slash keeps https://example.com from matching https://example.com.evil.tld or :8443;
+    // LIKE wildcards in the origin are escaped.
+    const { data, error } = await supabase
+      .from('pages')
+      .select('url')
+      .eq('tenant_id', tenantId)
+      .like('url', `${origin.replace(/[\\%_]/g, '\\$&')}/%`);
+    if (error) throw error;
+    return (data as { url: string }[] ?? []).map(p => p.url);
+  },
+  async purgePages(tenantId, urls) {
+    const { error } = await supabase.rpc('purge_pages', { p_tenant_id: tenantId, p_urls: urls });
+    if (error) throw error;
+  },
+  async embeddingModels(tenantId) {
+    const { data, error } = await supabase.rpc('page_embedding_models', { p_tenant_id: tenantId });
+    if (error) throw error;
+    return (data as { embedding_model: string | null }[] ?? []).map(row => row.embedding_model);
+  },
+  // Page count and latest indexing time: every replaced page bumps indexed_at and every purge lowers the count.
+  async indexVersion(tenantId) {
+    const { data, count, error } = await supabase
+      .from('pages')
+      .select('indexed_at', { count: 'exact' })
+      .eq('tenant_id', tenantId)
+      .order('indexed_at', { ascending: false })
+      .limit(1);
+    if (error) throw error;
+    return `${count ?? 0}:${data?.[0]?.indexed_at ?? ''}`;
+  },
+};
+
+const STOP_WORDS = new Set(
+  'a an and are as at be by can do does for from how i in is it me my of on or our the to we what when where which who why with you your'.split(' '),
+);
+
+// Lowercased content words with a plural "s" dropped, a rough stand-in for Postgres' english stemming.
+export function searchTerms(text: string) {
+  return new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+      .filter(word => !STOP_WORDS.has(word))
+      .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)),
+  );
+}
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, v, i) => sum + v * (b[i] ?? 0), 0);
+
+type MemoryChunk = PageChunk & { page: IndexedPage; terms: Set<string> };
+
+// -------- In-memory store --------
+// Stand-in for the Postgres store, for offline evaluation, tests and single-process development. Embeddings
+// are assumed normalized, as the Google, OpenAI and local models return them.
+export function createMemoryVectorStore(): VectorStore {
+  const pages = new Map<string, { tenantId: string; page: IndexedPage; chunks: MemoryChunk[] }>();
+  const versions = new Map<string, number>();
+  const bumpVersion = (tenantId: string) => versions.set(tenantId, (versions.get(tenantId) ?? 0) + 1);
+  const key = (tenantId: string, url: string) => `${tenantId}\n${url}`;
+  const tenantChunks = (tenantId: string) =>
+    [...pages.values()].filter(p => p.tenantId === tenantId).flatMap(p => p.chunks);
+
+  const toMatch = (chunk: MemoryChunk, similarity: number, exact?: boolean): ChunkMatch => ({
+    url: chunk.page.url,
+    title: chunk.page.title,
+    chunk_index: chunk.chunkIndex,
+    heading_path: chunk.headingPath,
+    text: chunk.text,
+    similarity,
+    exact,
+  });
+
+  return {
+    async matchChunks(tenantId, embeddingModel, embedding, count) {
+      return tenantChunks(tenantId)
+        .filter(chunk => chunk.page.embeddingModel === embeddingModel)
+        .map(chunk => toMatch(chunk, cosine(embedding, chunk.embedding)))
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, count);
+    },
+    async keywordSearch(tenantId, embeddingModel, query, embedding, count) {
+      const similarity = (chunk: MemoryChunk) =>
+        chunk.page.embeddingModel === embeddingModel ? cosine(embedding, chunk.embedding) : 0;
+      const queryTerms = [...searchTerms(query)];
+      if (queryTerms.length === 0) return [];
+      return tenantChunks(tenantId)
+        .map(chunk => ({ chunk, hits: queryTerms.filter(t => chunk.terms.has(t)).length }))
+        .filter(({ hits }) => hits > 0)
+        .sort((a, b) => b.hits - a.hits)
+        .slice(0, count)
+        .map(({ chunk, hits }) => toMatch(chunk, similarity(chunk), hits === queryTerms.length));
+    },
+    async getPage(tenantId, url) {
+      return pages.get(key(tenantId, url))?.page ?? null;
+    },
+    async replacePage(tenantId, page, chunks) {
+      pages.set(key(tenantId, page.url), {
+        tenantId,
+        page,
+        chunks: chunks.map(chunk => ({
+          ...chunk,
+          page,
+          terms: searchTerms(`${page.title ?? ''} ${chunk.headingPath.join(' ')} ${chunk.text}`),
+        })),
+      });
+      bumpVersion(tenantId);
+    },
+    async listPageUrls(tenantId, origin) {
+      return [...pages.values()]
+        .filter(p => p.tenantId === tenantId && p.page.url.startsWith(`${origin}/`))
+        .map(p => p.page.url);
+    },
+    async purgePages(tenantId, urls) {
+      for (const url of urls) pages.delete(key(tenantId, url));
+      bumpVersion(tenantId);
+    },
+    async embeddingModels(tenantId) {
+      return [...new Set([...pages.values()].filter(p => p.tenantId === tenantId).map(p => p.page.embeddingModel))];
+    },
+    async indexVersion(tenantId) {
+      return String(versions.get(tenantId) ?? 0);
+    },
+  };
+}
+
+// Memory stores hold nothing across restarts, so the default one is shared by the whole process.
+export const defaultVectorStore: VectorStore = process.env.VECTOR_STORE === 'memory'
+  ? createMemoryVectorStore()
+  : supabaseVectorStore;
+
+// -------- Embedding model check --------
+// Vectors from different embedding models are not comparable. After EMBEDDING_PROVIDER or EMBEDDING_MODEL
+// changes, pages embedded with the old model need re-embedding; the next indexing run does that.
+export async function embeddingStatus(tenantId: string, store = defaultVectorStore) {
+  const stored = await store.embeddingModels(tenantId);
+  return {
+    current: embeddingModelId,
+    stored,
+    needsReembedding: stored.some(model => model !== embeddingModelId),
+  };
+}
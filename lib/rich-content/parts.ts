@@ -0,0 +1,16 @@
+// -------- Rich message parts --------
+// Structured content the assistant adds to a reply by calling a tool. The chat renders each tool's output,
+// which the server has already cleaned up, rather than the model's raw input. Safe to import in the browser.
+export type ServiceCard = {
+  title: string;
+  description: string;
+  // Only pages retrieved for this reply; anything else is dropped.
+  url?: string;
+};
+
+export type ServiceCardsOutput = { cards: ServiceCard[] };
+export type QuickRepliesOutput = { replies: string[] };
+export type ContactCtaOutput = { label: string };
+
+export const MAX_SERVICE_CARDS = 4;
+export const MAX_QUICK_REPLIES = 4;
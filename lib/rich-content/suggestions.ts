@@ -0,0 +1,54 @@
+import { generateObject, type LanguageModel } from 'ai';
+import { z } from 'zod';
+import { chatModel } from '../models';
+import { mentionsForbiddenTerm, type Policy } from '../policy/rules';
+
+// FOLLOW_UP_SUGGESTIONS=off turns them off. The reply's stream stays open until they arrive, so the model call
+// is abandoned after FOLLOW_UP_TIMEOUT_MS.
+export const followUpsEnabled = process.env.FOLLOW_UP_SUGGESTIONS !== 'off';
+const FOLLOW_UP_TIMEOUT_MS = Number(process.env.FOLLOW_UP_TIMEOUT_MS ?? 3000);
+
+const MAX_SUGGESTIONS = 3;
+const MAX_SUGGESTION_CHARS = 80;
+
+type FollowUpOptions = {
+  model?: LanguageModel;
+  count?: number;
+  timeoutMs?: number;
+};
+
+// -------- Follow-up suggestions --------
+// Questions the visitor might ask next, limited to what the retrieved pages can answer so every suggestion
+// leads to a grounded reply. Returns [] without context or when the model call fails or times out.
+export async function suggestFollowUps(
+  policy: Policy,
+  question: string,
+  answer: string,
+  context: string,
+  { model = chatModel, count = MAX_SUGGESTIONS, timeoutMs = FOLLOW_UP_TIMEOUT_MS }: FollowUpOptions = {},
+) {
+  if (!context.trim() || !answer.trim()) return [];
+
+  try {
+    const { object } = await generateObject({
+      model,
+      abortSignal: AbortSignal.timeout(timeoutMs),
+      schema: z.object({ questions: z.array(z.string()) }),
+      prompt: [
+        `Suggest ${count} short follow-up questions a visitor of the ${policy.siteName} website might ask next.`,
+        'Each must be answerable from the website content below, must not repeat what the answer already says, and ' +
+        'must be written as the visitor would type it, in at most 10 words.',
+        `Visitor's question:\n${question}`,
+        `Answer given:\n${answer}`,
+        `Website content:\n${context}`,
+      ].join('\n\n'),
+    });
+
+    return [...new Set(object.questions.map(q => q.trim().replace(/\s+/g, ' ')))]
+      .filter(q => q && q.length <= MAX_SUGGESTION_CHARS && !mentionsForbiddenTerm(policy, q))
+      .slice(0, count);
+  } catch (err) {
+    console.error('Follow-up suggestion error:', err);
+    return [];
+  }
+}
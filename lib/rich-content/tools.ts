@@ -0,0 +1,70 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { mentionsForbiddenTerm, type Policy } from '../policy/rules';
+import {
+  MAX_QUICK_REPLIES,
+  MAX_SERVICE_CARDS,
+  type ContactCtaOutput,
+  type QuickRepliesOutput,
+  type ServiceCardsOutput,
+} from './parts';
+
+type RichContentOptions = {
+  policy: Policy;
+  // Whether a URL belongs to a page retrieved for this reply.
+  isRetrieved: (url: string) => boolean;
+};
+
+const clip = (text: string, max: number) => text.trim().replace(/\s+/g, ' ').slice(0, max);
+
+// -------- Tools --------
+// Model input is trimmed and length-capped rather than rejected, and text mentioning forbidden terms is
+// dropped, since tool output bypasses the streaming output filter.
+export function richContentTools({ policy, isRetrieved }: RichContentOptions) {
+  const allowed = (text: string) => !mentionsForbiddenTerm(policy, text);
+
+  return {
+    showServiceCards: tool({
+      description: 'Show services or offerings from the website content as cards below your answer. Use it when you present two or more services.',
+      inputSchema: z.object({
+        cards: z.array(z.object({
+          title: z.string(),
+          description: z.string().describe('One or two sentences'),
+          url: z.string().optional().describe('URL of the page about it, as given in the website content'),
+        })),
+      }),
+      execute: async ({ cards }): Promise<ServiceCardsOutput> => ({
+        cards: cards
+          .filter(card => allowed(`${card.title} ${card.description}`))
+          .slice(0, MAX_SERVICE_CARDS)
+          .map(card => ({
+            title: clip(card.title, 80),
+            description: clip(card.description, 300),
+            url: card.url && isRetrieved(card.url) ? card.url : undefined,
+          })),
+      }),
+    }),
+
+    showQuickReplies: tool({
+      description: 'Offer the visitor a few short replies they can tap instead of typing, e.g. the options of a question you just asked.',
+      inputSchema: z.object({
+        replies: z.array(z.string()).describe(`Up to ${MAX_QUICK_REPLIES} replies of a few words each, written as the visitor would say them`),
+      }),
+      execute: async ({ replies }): Promise<QuickRepliesOutput> => ({
+        replies: [...new Set(replies.map(reply => clip(reply, 60)))]
+          .filter(reply => reply && allowed(reply))
+          .slice(0, MAX_QUICK_REPLIES),
+      }),
+    }),
+
+    offerContactForm: tool({
+      description: 'Show a button that opens the contact form, for visitors who would rather fill in a form than answer questions in the chat.',
+      inputSchema: z.object({
+        label: z.string().describe('Button text, e.g. "Request a quote"'),
+      }),
+      execute: async ({ label }): Promise<ContactCtaOutput> => ({
+        label: allowed(label) && clip(label, 40) ? clip(label, 40) : 'Leave your details',
+      }),
+    }),
+  };
+}
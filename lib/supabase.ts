@@ -0,0 +1,13 @@
+import { createClient } from '@supabase/supabase-js';
+
+// -------- Supabase --------
+// Model provider keys are checked by lib/models.ts for the providers actually selected.
+const { SUPABASE_URL, SUPABASE_KEY } = process.env;
+if (!SUPABASE_URL || !SUPABASE_KEY) {
+  throw new Error('Missing one or more required environment variables: SUPABASE_URL, SUPABASE_KEY');
+}
+
+export const supabase = createClient(SUPABASE_URL, SUPABASE_KEY);
+
+// Row ids are uuids. Anything else makes Postgres reject the query, so callers check ids from URLs first.
+export const isUuid = (value: string) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
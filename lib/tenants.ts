@@ -0,0 +1,104 @@
+import type { NextRequest } from 'next/server';
+import { tenants } from '@/config/tenants';
+
+export type LeadFieldType = 'text' | 'email' | 'tel' | 'textarea' | 'select' | 'checkbox';
+
+export type LeadField = {
+  name: string;
+  label: string;
+  type: LeadFieldType;
+  required?: boolean;
+  options?: { value: string; label: string }[];
+  // Characters stripped while typing: 'letters' keeps letters and spaces, 'digits' keeps digits.
+  sanitize?: 'letters' | 'digits';
+  defaultValue?: string | boolean;
+  // Optional fields the chat assistant also asks for when collecting details in conversation.
+  ask?: boolean;
+};
+
+export type CannedAnswer = {
+  // Completes "If the user asks ...", e.g. "for the phone number".
+  when: string;
+  answer: string;
+  // Phrases that trigger the answer directly, without asking the model.
+  match?: string[];
+};
+
+export type TenantConfig = {
+  id: string;
+  name: string;
+  siteUrl: string;
+  // Request hosts that select this tenant when the request does not name one.
+  hosts?: string[];
+  // Origins allowed to embed the chat widget and call /api/chat from the browser, besides siteUrl's own
+  // origin, e.g. ['https://shop.example.com']. '*' allows any site.
+  allowedOrigins?: string[];
+  branding: {
+    assistantName: string;
+    avatarUrl: string;
+    primaryColor: string;
+  };
+  persona: string;
+  greeting: string;
+  // Questions offered on the welcome screen, sent as the first message when tapped.
+  starterPrompts?: string[];
+  // Lets visitors, or the assistant on their behalf, ask for a team member. Someone should be watching the
+  // operator console at /admin/handoff.
+  humanHandoff?: boolean;
+  // Reply for anything outside the site's business.
+  refusal: string;
+  cannedAnswers: CannedAnswer[];
+  forbiddenTopics: {
+    topics: string[];
+    reply: string;
+    // More terms to keep out of answers, besides the topics themselves.
+    terms?: string[];
+    // 'redact' (default) replaces forbidden terms while streaming; 'block' replaces the whole answer with `reply`.
+    filter?: 'redact' | 'block';
+  };
+  leadForm: {
+    fields: LeadField[];
+  };
+  // System prompt version from prompts/system, or weights to split sessions between versions,
+  // e.g. { v1: 1, v2: 1 }. Defaults to DEFAULT_PROMPT_VERSION.
+  promptVersion?: string | Record<string, number>;
+  // Where new leads are announced; defaults to LEAD_NOTIFY_EMAIL and LEAD_WEBHOOK_URL.
+  notifications?: {
+    email?: string[];
+    webhookUrl?: string;
+  };
+};
+
+// The part of a tenant that is safe to send to the browser.
+export type PublicTenant = Pick<TenantConfig, 'id' | 'name' | 'branding' | 'greeting' | 'starterPrompts' | 'humanHandoff' | 'leadForm'>;
+
+export const DEFAULT_TENANT_ID = process.env.DEFAULT_TENANT_ID ?? tenants[0].id;
+
+// -------- Tenant lookup --------
+export function getTenant(id: string) {
+  return tenants.find(t => t.id === id) ?? null;
+}
+
+export function getDefaultTenant() {
+  const tenant = getTenant(DEFAULT_TENANT_ID);
+  if (!tenant) throw new Error(`DEFAULT_TENANT_ID "${DEFAULT_TENANT_ID}" is not defined in config/tenants.ts`);
+  return tenant;
+}
+
+export function toPublicTenant({ id, name, branding, greeting, starterPrompts, humanHandoff, leadForm }: TenantConfig): PublicTenant {
+  return { id, name, branding, greeting, starterPrompts, humanHandoff, leadForm };
+}
+
+export function getTenantForHost(host: string | null) {
+  const hostname = host?.split(':')[0];
+  return tenants.find(t => hostname && t.hosts?.includes(hostname)) ?? getDefaultTenant();
+}
+
+// Picks the tenant for a request: an explicit id (body, `x-tenant-id` header or `?tenant=`), then the
+// request host, then the default. Returns null when an explicit id does not match any tenant.
+export function resolveTenant(req: NextRequest, explicitId?: string | null) {
+  const id = explicitId ?? req.headers.get('x-tenant-id') ?? req.nextUrl.searchParams.get('tenant');
+  if (id) return getTenant(id);
+
+  return getTenantForHost(req.headers.get('host'));
+}
@@ -0,0 +1,23 @@
+// -------- Throttle --------
+// Spaces calls at least `intervalMs` apart. `pause` holds back every caller, which is how a 429 from one
+// request slows down all the others instead of each one sleeping on its own.
+export function createThrottle(intervalMs: number) {
+  let next = 0;
+  let resumeAt = 0;
+
+  return {
+    async wait() {
+      for (;;) {
+        const now = Date.now();
+        const slot = Math.max(now, next, resumeAt);
+        next = slot + intervalMs;
+        if (slot > now) await new Promise(r => setTimeout(r, slot - now));
+        // A pause that started while we slept pushes us back again.
+        if (resumeAt <= Date.now()) return;
+      }
+    },
+    pause(ms: number) {
+      resumeAt = Math.max(resumeAt, Date.now() + ms);
+    },
+  };
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminBasicAuth } from '@/lib/auth';
+import { frameAncestors } from '@/lib/cors';
+import { getTenant } from '@/lib/tenants';
+
+export function middleware(req: NextRequest) {
+  // -------- Embedded chat --------
+  // Only the tenant's own sites may frame its chat panel.
+  if (req.nextUrl.pathname.startsWith('/embed')) {
+    const tenant = getTenant(req.nextUrl.searchParams.get('tenant') ?? '');
+    const res = NextResponse.next();
+    res.headers.set('Content-Security-Policy', tenant ? frameAncestors(tenant) : "frame-ancestors 'self'");
+    return res;
+  }
+
+  // -------- Admin pages --------
+  if (isAdminBasicAuth(req.headers.get('authorization'))) return NextResponse.next();
+
+  return new NextResponse('Authentication required', {
+    status: 401,
+    headers: { 'WWW-Authenticate': 'Basic realm="Admin", charset="UTF-8"' },
+  });
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/embed'],
+};
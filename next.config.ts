@@ -1,8 +1,9 @@
 import type { NextConfig } from "next";
+import { tenants } from "./config/tenants";
 
 const nextConfig: NextConfig = {
   images: {
-    domains: ["swarise.com"], 
+    remotePatterns: tenants.map(tenant => new URL(tenant.branding.avatarUrl)),
   },
 };
 
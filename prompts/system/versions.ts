@@ -0,0 +1,10 @@
+import type { PromptTemplate } from '@/lib/prompt-template';
+import v1 from './v1';
+import v2 from './v2';
+import v3 from './v3';
+
+// Every system prompt version that can be selected. Add a new file per version instead of editing an old
+// one, so answers recorded under a version keep meaning the same prompt.
+export const systemPrompts: PromptTemplate[] = [v1, v2, v3];
+
+export const DEFAULT_PROMPT_VERSION = 'v3';
@@ -0,0 +1,102 @@
+// Chat widget loader. Add to any page of a site listed in the tenant's siteUrl or allowedOrigins:
+//
+//   <script src="https://<bot host>/widget.js" data-bot-id="swarise" data-color="#3858ca"
+//     data-position="bottom-right" data-greeting="Hi! How can I help?" data-open="false" async></script>
+//
+// The launcher lives in a shadow root so the host page's CSS cannot reach it, and the chat panel is an
+// iframe of /embed on the bot's host. Events are posted to the host window as
+// { source: 'chatbot-widget', type: 'open' | 'close' | 'lead-captured', botId } (ignore 'close-panel',
+// the panel's request to this script); window.ChatbotWidget has open(), close() and toggle().
+(() => {
+  const script = document.currentScript;
+  if (!script || window.ChatbotWidget) return;
+
+  const botOrigin = new URL(script.src).origin;
+  const {
+    botId = '',
+    color = '#3858ca',
+    position = 'bottom-right',
+    greeting = '',
+    open: openOnLoad = 'false',
+  } = script.dataset;
+  const side = position === 'bottom-left' ? 'left' : 'right';
+  const accent = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i.test(color) ? color : '#3858ca';
+
+  const host = document.createElement('div');
+  host.id = 'chatbot-widget';
+  const root = host.attachShadow({ mode: 'open' });
+  root.innerHTML = `
+    <style>
+      :host { all: initial; }
+      .launcher {
+        position: fixed; bottom: 20px; ${side}: 20px; z-index: 2147483646;
+        width: 56px; height: 56px; border: none; border-radius: 50%; cursor: pointer;
+        background: ${accent}; color: #fff; box-shadow: 0 4px 14px rgba(0, 0, 0, 0.25);
+        display: flex; align-items: center; justify-content: center;
+      }
+      .launcher svg { width: 26px; height: 26px; }
+      .panel {
+        position: fixed; bottom: 88px; ${side}: 20px; z-index: 2147483647;
+        width: 380px; height: min(640px, calc(100vh - 108px));
+        border-radius: 12px; overflow: hidden; background: #fff; box-shadow: 0 8px 30px rgba(0, 0, 0, 0.25);
+      }
+      .panel[hidden] { display: none; }
+      iframe { width: 100%; height: 100%; border: none; display: block; }
+      @media (max-width: 480px) {
+        .panel { inset: 0; width: 100%; height: 100%; border-radius: 0; }
+      }
+    </style>
+    <button class="launcher" type="button" aria-label="Open chat" aria-expanded="false">
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor">
+        <path fill-rule="evenodd" d="M4.804 21.644A6.707 6.707 0 006 21.75a6.721 6.721 0 003.583-1.029c.774.182 1.584.279 2.417.279 5.322 0 9.75-3.97 9.75-9 0-5.03-4.428-9-9.75-9s-9.75 3.97-9.75 9c0 2.409 1.025 4.587 2.674 6.192.232.226.277.428.254.543a3.73 3.73 0 01-.814 1.686.75.75 0 00.44 1.223z" clip-rule="evenodd" />
+      </svg>
+    </button>
+    <div class="panel" role="dialog" aria-label="Chat" hidden></div>
+  `;
+  const launcher = root.querySelector('.launcher');
+  const panel = root.querySelector('.panel');
+  let frame = null;
+
+  const emit = type => window.postMessage({ source: 'chatbot-widget', type, botId }, window.location.origin);
+
+  // The iframe is created on first open, so the chat costs the host page nothing until it is used.
+  const ensureFrame = () => {
+    if (frame) return;
+    const params = new URLSearchParams({ tenant: botId, color: accent });
+    if (greeting) params.set('greeting', greeting);
+    frame = document.createElement('iframe');
+    frame.title = 'Chat';
+    frame.src = `${botOrigin}/embed?${params}`;
+    panel.appendChild(frame);
+  };
+
+  const setOpen = open => {
+    if (open === !panel.hidden) return;
+    if (open) ensureFrame();
+    panel.hidden = !open;
+    launcher.setAttribute('aria-expanded', String(open));
+    launcher.setAttribute('aria-label', open ? 'Close chat' : 'Open chat');
+    emit(open ? 'open' : 'close');
+  };
+
+  launcher.addEventListener('click', () => setOpen(panel.hidden));
+
+  // The panel asks to close from its header button.
+  window.addEventListener('message', event => {
+    if (event.origin !== botOrigin || !frame || event.source !== frame.contentWindow) return;
+    if (event.data?.source === 'chatbot-widget' && event.data.type === 'close-panel') setOpen(false);
+  });
+
+  window.ChatbotWidget = {
+    open: () => setOpen(true),
+    close: () => setOpen(false),
+    toggle: () => setOpen(panel.hidden),
+  };
+
+  const mount = () => {
+    document.body.appendChild(host);
+    if (openOnLoad === 'true') setOpen(true);
+  };
+  if (document.body) mount();
+  else document.addEventListener('DOMContentLoaded', mount);
+})();
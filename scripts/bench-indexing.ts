@@ -0,0 +1,40 @@
+// Measures embedding throughput of the indexing pipeline against the local stand-in model.
+//
+//   pnpm bench:indexing [pages] [chunksPerPage] [concurrency]
+//
+// "sequential" embeds one chunk per call, one page at a time (the old pipeline);
+// "pooled" embeds each page in one batched call with `concurrency` pages in flight.
+process.env.EMBEDDING_PROVIDER = 'local';
+process.env.CHAT_PROVIDER = 'local';
+process.env.LOCAL_EMBEDDING_LATENCY_MS ??= '50';
+
+async function main() {
+  const { embedTexts } = await import('../lib/embeddings');
+  const { runPool } = await import('../lib/indexing/pool');
+
+  const [pages = 40, chunksPerPage = 6, concurrency = 4] = process.argv.slice(2).map(Number);
+  const site = Array.from({ length: pages }, (_, p) =>
+    Array.from({ length: chunksPerPage }, (_, c) => `Page ${p} chunk ${c}: Swarise services and solutions.`),
+  );
+  const total = pages * chunksPerPage;
+
+  const measure = async (name: string, run: () => Promise<void>) => {
+    const startedAt = Date.now();
+    await run();
+    const seconds = (Date.now() - startedAt) / 1000;
+    console.log(`${name.padEnd(10)} ${seconds.toFixed(2)}s  ${(total / seconds).toFixed(1)} chunks/s`);
+  };
+
+  console.log(`${pages} pages x ${chunksPerPage} chunks, ${process.env.LOCAL_EMBEDDING_LATENCY_MS}ms per embedding call`);
+  await measure('sequential', async () => {
+    for (const chunks of site) {
+      for (const chunk of chunks) await embedTexts([chunk]);
+    }
+  });
+  await measure('pooled', () => runPool(site, concurrency, async chunks => { await embedTexts(chunks); }));
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
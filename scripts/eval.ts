@@ -0,0 +1,82 @@
+// Offline evaluation of retrieval and answers against a golden question set.
+//
+//   pnpm eval [--k 4] [--prompt v2] [--min-similarity 0.15] [--golden eval/golden.json] [--corpus eval/corpus.json] [--json]
+//
+// The fixture corpus is chunked with the real chunker and embedded with the local stand-in model into an
+// in-memory store; answers come from the local extractive chat model. Nothing leaves the machine.
+import { readFile } from 'node:fs/promises';
+
+process.env.EMBEDDING_PROVIDER = 'local';
+process.env.CHAT_PROVIDER = 'local';
+// lib/supabase.ts requires these at import time; the in-memory store never contacts Supabase.
+process.env.SUPABASE_URL ??= 'http://localhost:54321';
+process.env.SUPABASE_KEY ??= 'offline';
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const [name, inline] = argv[i].replace(/^--/, '').split('=');
+    const next = argv[i + 1];
+    if (inline !== undefined) args[name] = inline;
+    else if (next !== undefined && !next.startsWith('--')) args[name] = argv[++i];
+    else args[name] = true;
+  }
+  return args;
+}
+
+// Bag-of-words local embeddings give lower cosine scores than the production model, so the production
+// RETRIEVAL_MIN_SIMILARITY would filter out most relevant chunks here.
+const LOCAL_MIN_SIMILARITY = 0.15;
+
+const percent = (value: number | null) => (value === null ? '   n/a' : `${(value * 100).toFixed(1).padStart(5)}%`);
+
+async function main() {
+  const { getDefaultTenant, getTenant } = await import('../lib/tenants');
+  const { checkPromptTemplates } = await import('../lib/prompts');
+  const { tenants } = await import('../config/tenants');
+  const { createLocalChatModel } = await import('../lib/local-models');
+  const { indexFixtureCorpus, runEval } = await import('../lib/eval/harness');
+  type FixturePage = import('../lib/eval/harness').FixturePage;
+  type GoldenCase = import('../lib/eval/harness').GoldenCase;
+
+  // Every prompt version must render before any question is asked.
+  const promptProblems = checkPromptTemplates(tenants);
+  if (promptProblems.length > 0) throw new Error(`Prompt templates do not render:\n${promptProblems.join('\n')}`);
+
+  const args = parseArgs(process.argv.slice(2));
+  const tenant = typeof args.tenant === 'string' ? getTenant(args.tenant) : getDefaultTenant();
+  if (!tenant) throw new Error(`Unknown tenant "${args.tenant}"`);
+
+  const corpus = JSON.parse(await readFile(String(args.corpus ?? 'eval/corpus.json'), 'utf8')) as FixturePage[];
+  const golden = JSON.parse(await readFile(String(args.golden ?? 'eval/golden.json'), 'utf8')) as GoldenCase[];
+
+  const report = await runEval(golden, {
+    tenant,
+    store: await indexFixtureCorpus(tenant.id, corpus),
+    model: createLocalChatModel({ fallback: tenant.refusal }),
+    k: args.k ? Number(args.k) : undefined,
+    promptVersion: typeof args.prompt === 'string' ? args.prompt : undefined,
+    minSimilarity: args['min-similarity'] ? Number(args['min-similarity']) : LOCAL_MIN_SIMILARITY,
+  });
+
+  if (args.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(`${golden.length} questions, ${corpus.length} pages, k=${report.k}, prompt ${report.promptVersion}\n`);
+  console.log(`${'case'.padEnd(20)} recall     rr  refusal  facts`);
+  for (const r of report.cases) {
+    const refusal = r.refusalCorrect ? 'ok' : r.refused ? 'wrong' : 'missed';
+    console.log(`${r.id.padEnd(20)} ${percent(r.recall)} ${percent(r.reciprocalRank)}  ${refusal.padEnd(7)} ${percent(r.factCoverage)}`);
+  }
+  console.log(`\nrecall@${report.k}         ${percent(report.recallAtK)}`);
+  console.log(`MRR              ${percent(report.mrr)}`);
+  console.log(`refusal accuracy ${percent(report.refusalAccuracy)}`);
+  console.log(`fact coverage    ${percent(report.factCoverage)}`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,19 @@
+-- Indexing jobs started through /api/index. Progress is written here so it survives restarts.
+create table if not exists index_jobs (
+  id uuid primary key default gen_random_uuid(),
+  site_url text not null,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  pages_discovered integer not null default 0,
+  pages_indexed integer not null default 0,
+  chunks_embedded integer not null default 0,
+  errors jsonb not null default '[]'::jsonb,
+  error text,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists index_jobs_site_status_idx on index_jobs (site_url, status);
+create index if not exists index_jobs_created_at_idx on index_jobs (created_at desc);
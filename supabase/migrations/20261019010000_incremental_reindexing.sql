@@ -0,0 +1,49 @@
+-- One row per indexed page. content_hash fingerprints the scraped text so unchanged pages skip re-embedding.
+create table if not exists pages (
+  url text primary key,
+  content_hash text not null,
+  chunk_count integer not null default 0,
+  indexed_at timestamptz not null default now()
+);
+
+-- Pages indexed before fingerprinting get an empty hash, so the next run refreshes them.
+insert into pages (url, content_hash, chunk_count)
+select url, '', count(*) from documents group by url
+on conflict (url) do nothing;
+
+-- Swap a page's chunks in a single transaction so readers never see a half-indexed page.
+create or replace function replace_page_chunks(p_url text, p_content_hash text, p_chunks jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  delete from documents where url = p_url;
+
+  insert into documents (url, chunk_index, text, embedding)
+  select p_url, (c->>'chunk_index')::int, c->>'text', (c->>'embedding')::vector
+  from jsonb_array_elements(p_chunks) as c;
+
+  insert into pages (url, content_hash, chunk_count, indexed_at)
+  values (p_url, p_content_hash, jsonb_array_length(p_chunks), now())
+  on conflict (url) do update
+    set content_hash = excluded.content_hash,
+        chunk_count = excluded.chunk_count,
+        indexed_at = excluded.indexed_at;
+end;
+$$;
+
+create or replace function purge_pages(p_urls text[])
+returns void
+language plpgsql
+as $$
+begin
+  delete from documents where url = any(p_urls);
+  delete from pages where url = any(p_urls);
+end;
+$$;
+
+alter table index_jobs
+  add column if not exists pages_added integer not null default 0,
+  add column if not exists pages_updated integer not null default 0,
+  add column if not exists pages_unchanged integer not null default 0,
+  add column if not exists pages_removed integer not null default 0;
@@ -0,0 +1,2 @@
+-- Crawl options (depth, maxPages, include/exclude patterns) a job was started with.
+alter table index_jobs add column if not exists options jsonb not null default '{}'::jsonb;
@@ -0,0 +1,34 @@
+-- Chunks now follow the page's heading structure; heading_path records where each chunk sits.
+alter table documents add column if not exists heading_path text[] not null default '{}';
+alter table pages add column if not exists title text;
+
+-- Scraping changed shape, so every page is re-chunked on the next run.
+update pages set content_hash = '';
+
+drop function if exists replace_page_chunks(text, text, jsonb);
+
+create or replace function replace_page_chunks(p_url text, p_title text, p_content_hash text, p_chunks jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  delete from documents where url = p_url;
+
+  insert into documents (url, chunk_index, text, heading_path, embedding)
+  select
+    p_url,
+    (c->>'chunk_index')::int,
+    c->>'text',
+    coalesce(array(select jsonb_array_elements_text(c->'heading_path')), '{}'),
+    (c->>'embedding')::vector
+  from jsonb_array_elements(p_chunks) as c;
+
+  insert into pages (url, title, content_hash, chunk_count, indexed_at)
+  values (p_url, p_title, p_content_hash, jsonb_array_length(p_chunks), now())
+  on conflict (url) do update
+    set title = excluded.title,
+        content_hash = excluded.content_hash,
+        chunk_count = excluded.chunk_count,
+        indexed_at = excluded.indexed_at;
+end;
+$$;
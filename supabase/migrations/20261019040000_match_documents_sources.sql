@@ -0,0 +1,26 @@
+-- Return enough about each match to cite it: page URL and title, chunk position and similarity.
+drop function if exists match_documents(vector, int);
+
+create or replace function match_documents(query_embedding vector(768), match_count int)
+returns table (
+  url text,
+  title text,
+  chunk_index int,
+  heading_path text[],
+  text text,
+  similarity float
+)
+language sql stable
+as $$
+  select
+    d.url,
+    p.title,
+    d.chunk_index,
+    d.heading_path,
+    d.text,
+    1 - (d.embedding <=> query_embedding) as similarity
+  from documents d
+  left join pages p on p.url = d.url
+  order by d.embedding <=> query_embedding
+  limit match_count;
+$$;
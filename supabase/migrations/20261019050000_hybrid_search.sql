@@ -0,0 +1,48 @@
+-- Full-text index over chunk text for the keyword half of hybrid retrieval.
+alter table documents
+  add column if not exists fts tsvector generated always as (to_tsvector('english', text)) stored;
+
+create index if not exists documents_fts_idx on documents using gin (fts);
+
+-- Keyword matches for a query. Chunks containing every term come first (exact = true); when there are
+-- none, chunks containing any term are returned instead. Similarity is included so callers can apply
+-- the same threshold as vector search.
+create or replace function keyword_search_documents(query_text text, query_embedding vector(768), match_count int)
+returns table (
+  url text,
+  title text,
+  chunk_index int,
+  heading_path text[],
+  text text,
+  similarity float,
+  exact boolean
+)
+language plpgsql stable
+as $$
+declare
+  all_terms tsquery := plainto_tsquery('english', query_text);
+  any_term tsquery := nullif(replace(all_terms::text, '&', '|'), '')::tsquery;
+begin
+  return query
+    select d.url, p.title, d.chunk_index, d.heading_path, d.text,
+      1 - (d.embedding <=> query_embedding) as similarity,
+      true as exact
+    from documents d
+    left join pages p on p.url = d.url
+    where d.fts @@ all_terms
+    order by ts_rank_cd(d.fts, all_terms) desc
+    limit match_count;
+
+  if not found and any_term is not null then
+    return query
+      select d.url, p.title, d.chunk_index, d.heading_path, d.text,
+        1 - (d.embedding <=> query_embedding) as similarity,
+        false as exact
+      from documents d
+      left join pages p on p.url = d.url
+      where d.fts @@ any_term
+      order by ts_rank_cd(d.fts, any_term) desc
+      limit match_count;
+  end if;
+end;
+$$;
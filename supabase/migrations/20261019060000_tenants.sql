@@ -0,0 +1,122 @@
+-- Scope indexed content, leads and indexing jobs by tenant (see config/tenants.ts).
+-- Existing rows belong to the original Swarise bot.
+alter table documents add column if not exists tenant_id text not null default 'swarise';
+alter table pages add column if not exists tenant_id text not null default 'swarise';
+alter table user_leads add column if not exists tenant_id text not null default 'swarise';
+alter table user_leads add column if not exists details jsonb;
+alter table index_jobs add column if not exists tenant_id text not null default 'swarise';
+
+alter table pages drop constraint if exists pages_pkey;
+alter table pages add primary key (tenant_id, url);
+
+create index if not exists documents_tenant_url_idx on documents (tenant_id, url);
+create index if not exists user_leads_tenant_idx on user_leads (tenant_id);
+drop index if exists index_jobs_site_status_idx;
+create index if not exists index_jobs_tenant_site_status_idx on index_jobs (tenant_id, site_url, status);
+
+drop function if exists replace_page_chunks(text, text, text, jsonb);
+drop function if exists purge_pages(text[]);
+drop function if exists match_documents(vector, int);
+drop function if exists keyword_search_documents(text, vector, int);
+
+create or replace function replace_page_chunks(p_tenant_id text, p_url text, p_title text, p_content_hash text, p_chunks jsonb)
+returns void
+language plpgsql
+as $$
+begin
+  delete from documents where tenant_id = p_tenant_id and url = p_url;
+
+  insert into documents (tenant_id, url, chunk_index, text, heading_path, embedding)
+  select
+    p_tenant_id,
+    p_url,
+    (c->>'chunk_index')::int,
+    c->>'text',
+    coalesce(array(select jsonb_array_elements_text(c->'heading_path')), '{}'),
+    (c->>'embedding')::vector
+  from jsonb_array_elements(p_chunks) as c;
+
+  insert into pages (tenant_id, url, title, content_hash, chunk_count, indexed_at)
+  values (p_tenant_id, p_url, p_title, p_content_hash, jsonb_array_length(p_chunks), now())
+  on conflict (tenant_id, url) do update
+    set title = excluded.title,
+        content_hash = excluded.content_hash,
+        chunk_count = excluded.chunk_count,
+        indexed_at = excluded.indexed_at;
+end;
+$$;
+
+create or replace function purge_pages(p_tenant_id text, p_urls text[])
+returns void
+language plpgsql
+as $$
+begin
+  delete from documents where tenant_id = p_tenant_id and url = any(p_urls);
+  delete from pages where tenant_id = p_tenant_id and url = any(p_urls);
+end;
+$$;
+
+create or replace function match_documents(p_tenant_id text, query_embedding vector(768), match_count int)
+returns table (
+  url text,
+  title text,
+  chunk_index int,
+  heading_path text[],
+  text text,
+  similarity float
+)
+language sql stable
+as $$
+  select
+    d.url,
+    p.title,
+    d.chunk_index,
+    d.heading_path,
+    d.text,
+    1 - (d.embedding <=> query_embedding) as similarity
+  from documents d
+  left join pages p on p.tenant_id = d.tenant_id and p.url = d.url
+  where d.tenant_id = p_tenant_id
+  order by d.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+create or replace function keyword_search_documents(p_tenant_id text, query_text text, query_embedding vector(768), match_count int)
+returns table (
+  url text,
+  title text,
+  chunk_index int,
+  heading_path text[],
+  text text,
+  similarity float,
+  exact boolean
+)
+language plpgsql stable
+as $$
+declare
+  all_terms tsquery := plainto_tsquery('english', query_text);
+  any_term tsquery := nullif(replace(all_terms::text, '&', '|'), '')::tsquery;
+begin
+  return query
+    select d.url, p.title, d.chunk_index, d.heading_path, d.text,
+      1 - (d.embedding <=> query_embedding) as similarity,
+      true as exact
+    from documents d
+    left join pages p on p.tenant_id = d.tenant_id and p.url = d.url
+    where d.tenant_id = p_tenant_id and d.fts @@ all_terms
+    order by ts_rank_cd(d.fts, all_terms) desc
+    limit match_count;
+
+  if not found and any_term is not null then
+    return query
+      select d.url, p.title, d.chunk_index, d.heading_path, d.text,
+        1 - (d.embedding <=> query_embedding) as similarity,
+        false as exact
+      from documents d
+      left join pages p on p.tenant_id = d.tenant_id and p.url = d.url
+      where d.tenant_id = p_tenant_id and d.fts @@ any_term
+      order by ts_rank_cd(d.fts, any_term) desc
+      limit match_count;
+  end if;
+end;
+$$;
@@ -0,0 +1,24 @@
+-- Chat history, keyed by the session id the widget keeps in localStorage.
+create table if not exists conversations (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id text not null,
+  session_id text not null,
+  created_at timestamptz not null default now(),
+  last_message_at timestamptz not null default now(),
+  unique (tenant_id, session_id)
+);
+
+create index if not exists conversations_last_message_at_idx on conversations (last_message_at);
+
+-- One row per UI message; parts and metadata are stored as the chat client sends them.
+create table if not exists conversation_messages (
+  conversation_id uuid not null references conversations (id) on delete cascade,
+  id text not null,
+  role text not null check (role in ('system', 'user', 'assistant')),
+  parts jsonb not null,
+  metadata jsonb,
+  created_at timestamptz not null default now(),
+  primary key (conversation_id, id)
+);
+
+create index if not exists conversation_messages_created_at_idx on conversation_messages (conversation_id, created_at);
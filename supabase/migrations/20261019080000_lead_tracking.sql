@@ -0,0 +1,9 @@
+-- Lead follow-up status for the admin dashboard, and the conversation each lead came from.
+alter table user_leads
+  add column if not exists conversation_id uuid references conversations (id) on delete set null,
+  add column if not exists status text not null default 'new' check (status in ('new', 'contacted', 'closed')),
+  add column if not exists status_updated_at timestamptz;
+
+-- created_at is assumed to exist on user_leads already (Supabase adds it by default); keep it indexed for date filters.
+alter table user_leads add column if not exists created_at timestamptz not null default now();
+create index if not exists user_leads_tenant_created_at_idx on user_leads (tenant_id, created_at desc);
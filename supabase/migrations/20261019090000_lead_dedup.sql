@@ -0,0 +1,3 @@
+-- Duplicate lead detection looks up recent leads by email or phone within a tenant.
+create index if not exists user_leads_tenant_email_idx on user_leads (tenant_id, email, created_at desc);
+create index if not exists user_leads_tenant_phone_idx on user_leads (tenant_id, phone, created_at desc);
@@ -0,0 +1,21 @@
+-- Fixed-window counters for RATE_LIMIT_STORE=supabase.
+create table if not exists rate_limits (
+  key text primary key,
+  count integer not null,
+  reset_at timestamptz not null
+);
+
+create or replace function rate_limit_hit(p_key text, p_window_ms integer)
+returns table (count integer, reset_at timestamptz)
+language sql
+as $$
+  insert into rate_limits as r (key, count, reset_at)
+  values (p_key, 1, now() + p_window_ms * interval '1 millisecond')
+  on conflict (key) do update set
+    count = case when r.reset_at <= now() then 1 else r.count + 1 end,
+    reset_at = case when r.reset_at <= now() then excluded.reset_at else r.reset_at end
+  returning r.count, r.reset_at;
+$$;
+
+-- The store deletes expired windows about once an hour.
+create index if not exists rate_limits_reset_at_idx on rate_limits (reset_at);
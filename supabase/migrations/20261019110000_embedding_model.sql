@@ -0,0 +1,50 @@
+-- Records which embedding model produced each page's vectors ("<provider>:<model>"), so switching models can be
+-- detected and the affected pages re-embedded on the next indexing run.
+alter table pages add column if not exists embedding_model text;
+
+-- Everything indexed so far was embedded with Google's text-embedding-004.
+update pages set embedding_model = 'google:text-embedding-004' where embedding_model is null;
+
+drop function if exists replace_page_chunks(text, text, text, text, jsonb);
+
+create or replace function replace_page_chunks(
+  p_tenant_id text,
+  p_url text,
+  p_title text,
+  p_content_hash text,
+  p_embedding_model text,
+  p_chunks jsonb
+)
+returns void
+language plpgsql
+as $$
+begin
+  delete from documents where tenant_id = p_tenant_id and url = p_url;
+
+  insert into documents (tenant_id, url, chunk_index, text, heading_path, embedding)
+  select
+    p_tenant_id,
+    p_url,
+    (c->>'chunk_index')::int,
+    c->>'text',
+    coalesce(array(select jsonb_array_elements_text(c->'heading_path')), '{}'),
+    (c->>'embedding')::vector
+  from jsonb_array_elements(p_chunks) as c;
+
+  insert into pages (tenant_id, url, title, content_hash, embedding_model, chunk_count, indexed_at)
+  values (p_tenant_id, p_url, p_title, p_content_hash, p_embedding_model, jsonb_array_length(p_chunks), now())
+  on conflict (tenant_id, url) do update
+    set title = excluded.title,
+        content_hash = excluded.content_hash,
+        embedding_model = excluded.embedding_model,
+        chunk_count = excluded.chunk_count,
+        indexed_at = excluded.indexed_at;
+end;
+$$;
+
+create or replace function page_embedding_models(p_tenant_id text)
+returns table (embedding_model text)
+language sql stable
+as $$
+  select distinct embedding_model from pages where tenant_id = p_tenant_id;
+$$;
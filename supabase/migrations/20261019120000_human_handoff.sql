@@ -0,0 +1,10 @@
+-- Human handoff: a conversation is answered by the bot, waiting for a team member, or handled by one.
+alter table conversations
+  add column if not exists mode text not null default 'bot' check (mode in ('bot', 'waiting', 'human')),
+  add column if not exists handoff_reason text,
+  add column if not exists handoff_requested_at timestamptz,
+  add column if not exists agent_name text;
+
+-- The operator console lists every conversation that is not with the bot, oldest request first.
+create index if not exists conversations_handoff_queue_idx
+  on conversations (handoff_requested_at) where mode <> 'bot';
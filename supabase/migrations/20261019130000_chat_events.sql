@@ -0,0 +1,24 @@
+-- One row per chat turn, for the analytics report at /admin/analytics.
+create table if not exists chat_events (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id text not null,
+  conversation_id uuid references conversations (id) on delete set null,
+  created_at timestamptz not null default now(),
+  -- The visitor's message; null for lead form submissions and contact details given in conversation.
+  query text,
+  outcome text not null
+    check (outcome in ('answered', 'cached', 'canned', 'refused', 'off_topic', 'forbidden', 'lead_form', 'handoff', 'error')),
+  -- Best cosine similarity among the chunks retrieved for the turn; null when nothing was found or searched.
+  top_similarity real,
+  retrieved_count integer not null default 0,
+  latency_ms integer not null,
+  first_token_ms integer,
+  input_tokens integer,
+  output_tokens integer,
+  lead_captured boolean not null default false,
+  prompt_version text,
+  tools text[] not null default '{}'
+);
+
+create index if not exists chat_events_tenant_created_at_idx on chat_events (tenant_id, created_at desc);
+create index if not exists chat_events_created_at_idx on chat_events (created_at desc);
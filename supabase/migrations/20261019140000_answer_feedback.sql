@@ -0,0 +1,43 @@
+-- Visitor ratings of assistant answers, stored with what the answer was based on, for the review queue.
+create table if not exists answer_feedback (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id text not null,
+  conversation_id uuid references conversations (id) on delete set null,
+  message_id text not null,
+  created_at timestamptz not null default now(),
+  rating text not null check (rating in ('up', 'down')),
+  comment text,
+  question text,
+  answer text not null,
+  -- Chunks retrieved for the answer: [{ url, title, chunkIndex, similarity }].
+  retrieved jsonb not null default '[]',
+  prompt_version text,
+  status text not null default 'new' check (status in ('new', 'resolved', 'dismissed')),
+  -- Set by the reviewer: the page that should have answered the question.
+  correct_source_url text,
+  reviewed_at timestamptz,
+  unique (conversation_id, message_id)
+);
+
+create index if not exists answer_feedback_tenant_status_idx on answer_feedback (tenant_id, status, created_at desc);
+
+-- Answers written by reviewers. Questions close enough to one are answered with it before any search.
+create table if not exists faq_overrides (
+  id uuid primary key default gen_random_uuid(),
+  tenant_id text not null,
+  question text not null,
+  answer text not null,
+  source_url text,
+  -- Embedding of the question and the model that made it; see lib/feedback/overrides.ts.
+  embedding jsonb not null,
+  embedding_model text not null,
+  feedback_id uuid references answer_feedback (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists faq_overrides_tenant_idx on faq_overrides (tenant_id);
+
+-- Turns answered with an FAQ override are reported as their own outcome.
+alter table chat_events drop constraint if exists chat_events_outcome_check;
+alter table chat_events add constraint chat_events_outcome_check
+  check (outcome in ('answered', 'cached', 'faq', 'canned', 'refused', 'off_topic', 'forbidden', 'lead_form', 'handoff', 'error'));
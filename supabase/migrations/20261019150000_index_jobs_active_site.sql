@@ -0,0 +1,16 @@
+-- At most one queued or running job per site, so concurrent requests cannot both start one.
+-- Older duplicates left by earlier versions are failed first.
+update index_jobs j
+set status = 'failed', error = 'Superseded by another job for the site', finished_at = now()
+where status in ('queued', 'running')
+  and exists (
+    select 1 from index_jobs newer
+    where newer.tenant_id = j.tenant_id
+      and newer.site_url = j.site_url
+      and newer.status in ('queued', 'running')
+      and newer.created_at > j.created_at
+  );
+
+create unique index if not exists index_jobs_active_site_idx
+  on index_jobs (tenant_id, site_url)
+  where status in ('queued', 'running');
@@ -0,0 +1,81 @@
+-- Vectors from different embedding models are not comparable. Vector search only considers pages embedded with
+-- the current model; keyword search still finds the other pages but reports no similarity for them, so they
+-- count only as exact matches until re-indexing re-embeds them.
+drop function if exists match_documents(text, vector, int);
+drop function if exists keyword_search_documents(text, text, vector, int);
+
+create or replace function match_documents(
+  p_tenant_id text,
+  p_embedding_model text,
+  query_embedding vector(768),
+  match_count int
+)
+returns table (
+  url text,
+  title text,
+  chunk_index int,
+  heading_path text[],
+  text text,
+  similarity float
+)
+language sql stable
+as $$
+  select
+    d.url,
+    p.title,
+    d.chunk_index,
+    d.heading_path,
+    d.text,
+    1 - (d.embedding <=> query_embedding) as similarity
+  from documents d
+  join pages p on p.tenant_id = d.tenant_id and p.url = d.url
+  where d.tenant_id = p_tenant_id and p.embedding_model = p_embedding_model
+  order by d.embedding <=> query_embedding
+  limit match_count;
+$$;
+
+create or replace function keyword_search_documents(
+  p_tenant_id text,
+  p_embedding_model text,
+  query_text text,
+  query_embedding vector(768),
+  match_count int
+)
+returns table (
+  url text,
+  title text,
+  chunk_index int,
+  heading_path text[],
+  text text,
+  similarity float,
+  exact boolean
+)
+language plpgsql stable
+as $$
+declare
+  all_terms tsquery := plainto_tsquery('english', query_text);
+  any_term tsquery := nullif(replace(all_terms::text, '&', '|'), '')::tsquery;
+begin
+  return query
+    select d.url, p.title, d.chunk_index, d.heading_path, d.text,
+      case when p.embedding_model = p_embedding_model then 1 - (d.embedding <=> query_embedding) else 0 end::float as similarity,
+      true as exact
+    from documents d
+    left join pages p on p.tenant_id = d.tenant_id and p.url = d.url
+    where d.tenant_id = p_tenant_id and d.fts @@ all_terms
+    order by ts_rank_cd(d.fts, all_terms) desc
+    limit match_count;
+
+  if not found and any_term is not null then
+    return query
+      select d.url, p.title, d.chunk_index, d.heading_path, d.text,
+        case when p.embedding_model = p_embedding_model then 1 - (d.embedding <=> query_embedding) else 0 end::float as similarity,
+        false as exact
+      from documents d
+      left join pages p on p.tenant_id = d.tenant_id and p.url = d.url
+      where d.tenant_id = p_tenant_id and d.fts @@ any_term
+      order by ts_rank_cd(d.fts, any_term) desc
+      limit match_count;
+  end if;
+end;
+$$;
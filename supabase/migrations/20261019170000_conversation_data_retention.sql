@@ -0,0 +1,14 @@
+-- Chat events and answer feedback hold the visitor's words, so they go with their conversation when it is
+-- purged after CONVERSATION_RETENTION_DAYS. Rows without a conversation are purged by age (see
+-- purgeExpiredConversations in lib/conversations.ts).
+alter table chat_events drop constraint if exists chat_events_conversation_id_fkey;
+alter table chat_events
+  add constraint chat_events_conversation_id_fkey
+  foreign key (conversation_id) references conversations (id) on delete cascade;
+
+alter table answer_feedback drop constraint if exists answer_feedback_conversation_id_fkey;
+alter table answer_feedback
+  add constraint answer_feedback_conversation_id_fkey
+  foreign key (conversation_id) references conversations (id) on delete cascade;
+
+create index if not exists answer_feedback_created_at_idx on answer_feedback (created_at);
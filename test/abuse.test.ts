@@ -0,0 +1,69 @@
+import './setup';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { clientIp, isBotSubmission, tooManyRequests } from '../lib/abuse';
+import { createMemoryStore, createRateLimiter, type RateLimitStore } from '../lib/rate-limit';
+
+const request = (headers: Record<string, string>) => new NextRequest('http://localhost/api/chat', { headers });
+
+describe('clientIp', () => {
+  test('uses the address appended by the proxy, not one the client sent', () => {
+    assert.equal(clientIp(request({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' })), '203.0.113.7');
+    assert.equal(clientIp(request({ 'x-forwarded-for': '203.0.113.7' })), '203.0.113.7');
+  });
+
+  test('falls back to x-real-ip', () => {
+    assert.equal(clientIp(request({ 'x-real-ip': '203.0.113.8' })), '203.0.113.8');
+    assert.equal(clientIp(request({})), 'unknown');
+  });
+});
+
+describe('createRateLimiter', () => {
+  test('allows the limit per window, then reports when to retry', async () => {
+    const limiter = createRateLimiter('test', 2, 60_000, createMemoryStore());
+    assert.equal((await limiter.check('a')).allowed, true);
+    assert.equal((await limiter.check('a')).remaining, 0);
+
+    const blocked = await limiter.check('a');
+    assert.equal(blocked.allowed, false);
+    assert.ok(blocked.retryAfterMs > 0 && blocked.retryAfterMs <= 60_000);
+    // Keys are counted separately.
+    assert.equal((await limiter.check('b')).allowed, true);
+  });
+
+  test('starts a new window once the old one ends', async () => {
+    const limiter = createRateLimiter('test', 1, 20, createMemoryStore());
+    await limiter.check('a');
+    assert.equal((await limiter.check('a')).allowed, false);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.equal((await limiter.check('a')).allowed, true);
+  });
+
+  test('lets requests through when the store fails', async () => {
+    const failing: RateLimitStore = { hit: async () => { throw new Error('down'); } };
+    const original = console.error;
+    console.error = () => {};
+    try {
+      assert.equal((await createRateLimiter('test', 1, 60_000, failing).check('a')).allowed, true);
+    } finally {
+      console.error = original;
+    }
+  });
+
+  test('429 responses carry Retry-After in seconds', async () => {
+    const res = tooManyRequests(1500);
+    assert.equal(res.status, 429);
+    assert.equal(res.headers.get('Retry-After'), '2');
+    assert.equal((await res.json()).error, 'rate_limited');
+  });
+});
+
+describe('isBotSubmission', () => {
+  test('flags filled honeypots and instant submissions', () => {
+    assert.equal(isBotSubmission(undefined), true);
+    assert.equal(isBotSubmission({ honeypot: 'http://spam', elapsedMs: 60_000 }), true);
+    assert.equal(isBotSubmission({ honeypot: '', elapsedMs: 100 }), true);
+    assert.equal(isBotSubmission({ honeypot: '', elapsedMs: 60_000 }), false);
+  });
+});
@@ -0,0 +1,26 @@
+import './setup';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isRefusal } from '../lib/analytics/events';
+import type { Policy } from '../lib/policy/rules';
+
+const policy: Policy = {
+  siteName: 'Example',
+  refusal: 'I can only help with questions about Example.',
+  cannedAnswers: [],
+  forbidden: { topics: ['pensions'], terms: ['pension'], reply: 'We do not advise on pensions.', filter: 'block' },
+};
+
+describe('isRefusal', () => {
+  test('recognizes the refusal within an answer, ignoring case and punctuation', () => {
+    assert.equal(isRefusal('Sorry! I can only help with questions about example', policy), true);
+  });
+
+  test('recognizes the forbidden-topic reply', () => {
+    assert.equal(isRefusal('We do not advise on pensions.', policy), true);
+  });
+
+  test('an answer is not a refusal', () => {
+    assert.equal(isRefusal('We build mobile apps for iOS and Android.', policy), false);
+  });
+});
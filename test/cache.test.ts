@@ -0,0 +1,85 @@
+import './setup';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { NextRequest } from 'next/server';
+import { DELETE } from '../app/api/cache/route';
+import { tenants } from '../config/tenants';
+import { cacheAnswer, findCachedAnswer, type CachedAnswer } from '../lib/cache/answers';
+import { createMemoryCache, defaultCache } from '../lib/cache/store';
+
+const answer = (question: string): CachedAnswer => ({
+  question,
+  embedding: [1, 0],
+  text: 'We are open nine to five.',
+  sources: [],
+  createdAt: new Date().toISOString(),
+});
+
+// -------- Memory store --------
+describe('createMemoryCache', () => {
+  test('entries expire after their time to live', async () => {
+    const cache = createMemoryCache();
+    await cache.set('ns', 'short', 'a', 20);
+    await cache.set('ns', 'long', 'b', 60_000);
+    assert.equal(await cache.get('ns', 'short'), 'a');
+
+    await sleep(40);
+    assert.equal(await cache.get('ns', 'short'), undefined);
+    assert.deepEqual(await cache.values('ns'), ['b']);
+  });
+
+  test('evicts the least recently used entry', async () => {
+    const cache = createMemoryCache(2);
+    await cache.set('ns', 'a', 1, 60_000);
+    await cache.set('ns', 'b', 2, 60_000);
+    await cache.get('ns', 'a');
+    await cache.set('ns', 'c', 3, 60_000);
+    assert.deepEqual((await cache.values<number>('ns')).sort(), [1, 3]);
+  });
+
+  test('clear drops every namespace with the prefix', async () => {
+    const cache = createMemoryCache();
+    await cache.set('answers:a:1', 'q', 1, 60_000);
+    await cache.set('answers:b:1', 'q', 2, 60_000);
+    await cache.clear('answers:a:');
+    assert.equal(await cache.get('answers:a:1', 'q'), undefined);
+    assert.equal(await cache.get('answers:b:1', 'q'), 2);
+  });
+});
+
+// -------- Answer cache --------
+describe('semantic answer cache', () => {
+  test('a hit needs the same tenant, index version and prompt version', async () => {
+    const cache = createMemoryCache();
+    await cacheAnswer('t', 'index-1', 'v1', answer('When are you open?'), cache);
+
+    assert.equal((await findCachedAnswer('t', 'index-1', 'v1', [1, 0], cache))?.question, 'When are you open?');
+    assert.equal(await findCachedAnswer('other', 'index-1', 'v1', [1, 0], cache), undefined);
+    assert.equal(await findCachedAnswer('t', 'index-2', 'v1', [1, 0], cache), undefined);
+    assert.equal(await findCachedAnswer('t', 'index-1', 'v2', [1, 0], cache), undefined);
+  });
+
+  test('a different question is a miss', async () => {
+    const cache = createMemoryCache();
+    await cacheAnswer('t', 'index-1', 'v1', answer('When are you open?'), cache);
+    assert.equal(await findCachedAnswer('t', 'index-1', 'v1', [0, 1], cache), undefined);
+  });
+
+  test('DELETE /api/cache empties the tenant\'s cached answers', async () => {
+    process.env.ADMIN_API_KEY = 'test-key';
+    const tenantId = tenants[0].id;
+    await cacheAnswer(tenantId, 'index-1', 'v1', answer('When are you open?'));
+    assert.ok(await findCachedAnswer(tenantId, 'index-1', 'v1', [1, 0]));
+
+    const url = `http://localhost/api/cache?${new URLSearchParams({ tenant: tenantId })}`;
+    const unauthorized = await DELETE(new NextRequest(url, { method: 'DELETE' }));
+    assert.equal(unauthorized.status, 401);
+    assert.ok(await findCachedAnswer(tenantId, 'index-1', 'v1', [1, 0]));
+
+    const res = await DELETE(new NextRequest(url, { method: 'DELETE', headers: { authorization: 'Bearer test-key' } }));
+    assert.equal(res.status, 200);
+    assert.equal(await findCachedAnswer(tenantId, 'index-1', 'v1', [1, 0]), undefined);
+    assert.deepEqual(await defaultCache.values(`answers:${tenantId}:index-1:v1`), []);
+  });
+});
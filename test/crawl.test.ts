@@ -0,0 +1,117 @@
+import './setup';
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import type { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { crawlSite, type PageVisitor } from '../lib/indexing/crawl';
+import { parseRobots } from '../lib/indexing/robots';
+import { normalizeUrl } from '../lib/indexing/url';
+import { createMemoryVectorStore } from '../lib/retrieval/store';
+
+// -------- Fixture site --------
+// Serves test/fixtures/site: "/" is index.html, "/a/b" is a-b.html, other files by name. {{origin}} in the
+// files is replaced with the server's address.
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'site');
+
+function serveFixtureSite() {
+  const server = createServer(async (req, res) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://fixture');
+    const file = pathname === '/' ? 'index.html' : /\.\w+$/.test(pathname) ? pathname.slice(1) : `${pathname.slice(1).replace(/\//g, '-')}.html`;
+    try {
+      const content = await readFile(path.join(FIXTURE_DIR, path.basename(file)), 'utf8');
+      const type = file.endsWith('.html') ? 'text/html' : file.endsWith('.xml') ? 'application/xml' : 'text/plain';
+      res.writeHead(200, { 'Content-Type': type });
+      res.end(content.replaceAll('{{origin}}', `http://${req.headers.host}`));
+    } catch {
+      res.writeHead(404).end();
+    }
+  });
+  return new Promise<Server>(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+// Reads links and the canonical from the served HTML, instead of rendering pages in a browser.
+const fetchVisitor: PageVisitor = async url => {
+  const html = await (await fetch(url)).text();
+  const href = (tag: string) => tag.match(/href="([^"]*)"/)?.[1];
+  const canonical = html.match(/<link[^>]*rel="canonical"[^>]*>/)?.[0];
+  return {
+    canonical: canonical ? new URL(href(canonical)!, url).href : null,
+    links: (html.match(/<a [^>]*>/g) ?? []).map(tag => new URL(href(tag)!, url).href),
+  };
+};
+
+describe('robots.txt', () => {
+  const robots = parseRobots([
+    'User-agent: bot',
+    'Disallow: /',
+    '',
+    'User-agent: *',
+    'Disallow: /private',
+    'Allow: /private/open',
+    'Crawl-delay: 2',
+  ].join('\n'));
+
+  test('ignores groups for other crawlers whose name is part of ours', () => {
+    assert.equal(robots.isAllowed('https://example.com/about'), true);
+  });
+
+  test('applies the most specific rule', () => {
+    assert.equal(robots.isAllowed('https://example.com/private/secret'), false);
+    assert.equal(robots.isAllowed('https://example.com/private/open'), true);
+    assert.equal(robots.crawlDelayMs, 2000);
+  });
+
+  test('uses the group naming our crawler', () => {
+    const named = parseRobots('User-agent: *\nDisallow:\n\nUser-agent: SwariseBot\nDisallow: /');
+    assert.equal(named.isAllowed('https://example.com/about'), false);
+  });
+});
+
+describe('URL normalization', () => {
+  test('drops fragments, tracking parameters and trailing slashes', () => {
+    for (const href of ['/about', '/about/', '/about#team', '/about?utm_source=x']) {
+      assert.equal(normalizeUrl(href, 'https://example.com'), 'https://example.com/about');
+    }
+  });
+});
+
+describe('crawlSite', () => {
+  let server: Server;
+  let origin: string;
+
+  before(async () => {
+    server = await serveFixtureSite();
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => server?.close());
+
+  test('seeds from sitemaps, honours robots.txt, canonicalizes and filters', async () => {
+    const { urls } = await crawlSite(fetchVisitor, origin, { exclude: ['^/blog/'], concurrency: 2 });
+    assert.deepEqual(urls.sort(), [
+      `${origin}/`,
+      `${origin}/about`,
+      `${origin}/orphan`,
+      `${origin}/private/open`,
+      `${origin}/services`,
+    ]);
+  });
+
+  test('stops at maxPages', async () => {
+    const { urls } = await crawlSite(fetchVisitor, origin, { maxPages: 2, concurrency: 1 });
+    assert.equal(urls.length, 2);
+  });
+});
+
+describe('stored page URLs', () => {
+  test('only lists pages on the same origin', async () => {
+    const store = createMemoryVectorStore();
+    const page = (url: string) => ({ url, title: null, contentHash: '', embeddingModel: null });
+    for (const url of ['https://example.com/', 'https://example.com/about', 'https://example.com.evil.tld/', 'https://example.com:8443/']) {
+      await store.replacePage('t', page(url), []);
+    }
+    assert.deepEqual(await store.listPageUrls('t', 'https://example.com'), ['https://example.com/', 'https://example.com/about']);
+  });
+});
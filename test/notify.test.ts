@@ -0,0 +1,141 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'node:crypto';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import { createServer as createTcpServer, type Server as TcpServer } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { getDefaultTenant } from '../lib/tenants';
+import { notifyLead, smtpNotifier, webhookNotifier } from '../lib/leads/notify';
+import type { Lead } from '../lib/leads/queries';
+
+const tenant = getDefaultTenant();
+
+const lead: Lead = {
+  id: '6f1c0a52-4d1e-4a8e-9a56-0c8f8f3b2a10',
+  tenant_id: tenant.id,
+  conversation_id: null,
+  created_at: '2026-10-19T12:00:00Z',
+  name: 'Ada Lovelace',
+  email: 'ada@example.com',
+  phone: '+441234567890',
+  company: null,
+  inquiry_type: null,
+  message: 'Please call me back.',
+  contact_method: 'email',
+  best_time: null,
+  agree: true,
+  newsletter: false,
+  details: null,
+  status: 'new',
+  status_updated_at: null,
+};
+
+const listen = <T extends Server | TcpServer>(server: T) =>
+  new Promise<number>(resolve => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+
+// -------- Mock webhook receiver --------
+describe('webhookNotifier', () => {
+  const received: { headers: IncomingHttpHeaders; body: string }[] = [];
+  let status = 200;
+  let server: Server;
+  let url: string;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(status).end();
+      });
+    });
+    url = `http://127.0.0.1:${await listen(server)}/hooks/leads`;
+  });
+
+  after(() => server.close());
+
+  test('posts the lead signed with the secret', async () => {
+    await webhookNotifier(url, 'shh').send(tenant, lead);
+
+    const { headers, body } = received.at(-1)!;
+    assert.equal(headers['content-type'], 'application/json');
+    assert.equal(headers['x-lead-signature'], `sha256=${createHmac('sha256', 'shh').update(body).digest('hex')}`);
+    assert.deepEqual(JSON.parse(body), { event: 'lead.created', tenant: { id: tenant.id, name: tenant.name }, lead });
+  });
+
+  test('rejects on an error response', async () => {
+    status = 500;
+    await assert.rejects(webhookNotifier(url).send(tenant, lead), /Webhook responded 500/);
+    status = 200;
+  });
+
+  test('notifyLead logs failures instead of throwing', async () => {
+    status = 503;
+    const errors: unknown[] = [];
+    const original = console.error;
+    console.error = (...args: unknown[]) => { errors.push(args); };
+    try {
+      await notifyLead(tenant, lead, [webhookNotifier(url)]);
+    } finally {
+      console.error = original;
+      status = 200;
+    }
+    assert.equal(errors.length, 1);
+  });
+});
+
+// -------- Mock SMTP server --------
+// Speaks just enough SMTP for one plain-text delivery and records the envelope and message.
+describe('smtpNotifier', () => {
+  const messages: { from: string; to: string[]; data: string }[] = [];
+  let server: TcpServer;
+  let smtpUrl: string;
+
+  before(async () => {
+    server = createTcpServer(socket => {
+      const message = { from: '', to: [] as string[], data: '' };
+      let buffer = '';
+      let inData = false;
+      socket.write('220 mock ESMTP\r\n');
+      socket.on('data', chunk => {
+        buffer += chunk.toString();
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          message.data = buffer.slice(0, end);
+          messages.push(message);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 queued\r\n');
+        }
+        let newline;
+        while (!inData && (newline = buffer.indexOf('\r\n')) >= 0) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 2);
+          const command = line.slice(0, 4).toUpperCase();
+          if (command === 'EHLO' || command === 'HELO') socket.write('250 mock\r\n');
+          else if (command === 'MAIL') { message.from = line.match(/<(.*)>/)?.[1] ?? ''; socket.write('250 ok\r\n'); }
+          else if (command === 'RCPT') { message.to.push(line.match(/<(.*)>/)?.[1] ?? ''); socket.write('250 ok\r\n'); }
+          else if (command === 'DATA') { inData = true; socket.write('354 go ahead\r\n'); }
+          else if (command === 'QUIT') { socket.end('221 bye\r\n'); }
+          else socket.write('250 ok\r\n');
+        }
+      });
+    });
+    smtpUrl = `smtp://127.0.0.1:${await listen(server)}`;
+  });
+
+  after(() => server.close());
+
+  test('emails a summary of the lead with reply-to set to the visitor', async () => {
+    await smtpNotifier(smtpUrl, 'bot@example.com', ['sales@example.com', 'ops@example.com']).send(tenant, lead);
+
+    const { from, to, data } = messages.at(-1)!;
+    assert.equal(from, 'bot@example.com');
+    assert.deepEqual(to, ['sales@example.com', 'ops@example.com']);
+    assert.match(data, /^Reply-To: ada@example\.com$/m);
+    assert.match(data, /^Subject: New .* lead: Ada Lovelace$/m);
+    assert.match(data, /Please call me back\./);
+    assert.match(data, new RegExp(`Lead id: ${lead.id}`));
+  });
+});
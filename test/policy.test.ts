@@ -0,0 +1,126 @@
+import './setup';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { UIMessageChunk } from 'ai';
+import { MockLanguageModelV2 } from 'ai/test';
+import { evaluateInput } from '../lib/policy/input';
+import { createOutputFilter, REDACTED } from '../lib/policy/output';
+import type { Policy } from '../lib/policy/rules';
+
+const policy = (filter: Policy['forbidden']['filter'] = 'redact'): Policy => ({
+  siteName: 'Example',
+  refusal: 'I can only help with questions about Example.',
+  cannedAnswers: [
+    { when: 'for the phone number', answer: 'Call us on 0123 456 789.', match: ['phone number'] },
+    { when: 'for opening hours', answer: 'We are open 9 to 5.' },
+  ],
+  forbidden: {
+    topics: ['retirement planning'],
+    terms: ['retirement planning', 'pension'],
+    reply: 'We do not advise on retirement planning.',
+    filter,
+  },
+});
+
+// A model that answers every classification with `result`, counting the calls.
+function classifier(result: { category: string; cannedAnswer: number | null } | Error) {
+  return new MockLanguageModelV2({
+    doGenerate: async () => {
+      if (result instanceof Error) throw result;
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result) }],
+        finishReason: 'stop',
+        usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+        warnings: [],
+      };
+    },
+  });
+}
+
+const unusedModel = classifier(new Error('The model should not be called'));
+
+describe('evaluateInput', () => {
+  test('answers canned phrases and forbidden terms without the model', async () => {
+    assert.deepEqual(await evaluateInput(policy(), 'What is your phone number?', { model: unusedModel }), {
+      action: 'reply', reason: 'canned', text: 'Call us on 0123 456 789.',
+    });
+    assert.deepEqual(await evaluateInput(policy(), 'Can you help with my PENSION?', { model: unusedModel }), {
+      action: 'reply', reason: 'forbidden', text: 'We do not advise on retirement planning.',
+    });
+    assert.equal(unusedModel.doGenerateCalls.length, 0);
+  });
+
+  test('uses the classifier for paraphrases', async () => {
+    assert.deepEqual(await evaluateInput(policy(), 'When can I visit?', { model: classifier({ category: 'canned', cannedAnswer: 1 }) }), {
+      action: 'reply', reason: 'canned', text: 'We are open 9 to 5.',
+    });
+    assert.deepEqual(await evaluateInput(policy(), 'Should I stop working at 60?', { model: classifier({ category: 'forbidden', cannedAnswer: null }) }), {
+      action: 'reply', reason: 'forbidden', text: 'We do not advise on retirement planning.',
+    });
+  });
+
+  test('refuses off-topic messages', async () => {
+    assert.deepEqual(await evaluateInput(policy(), 'Tell me a joke', { model: classifier({ category: 'off_topic', cannedAnswer: null }) }), {
+      action: 'reply', reason: 'off_topic', text: 'I can only help with questions about Example.',
+    });
+  });
+
+  test('generates for on-topic messages, unknown canned answers and classifier failures', async () => {
+    const generate = { action: 'generate' };
+    assert.deepEqual(await evaluateInput(policy(), 'What services do you offer?', { model: classifier({ category: 'on_topic', cannedAnswer: null }) }), generate);
+    assert.deepEqual(await evaluateInput(policy(), 'Hours?', { model: classifier({ category: 'canned', cannedAnswer: 7 }) }), generate);
+
+    const original = console.error;
+    console.error = () => {};
+    try {
+      assert.deepEqual(await evaluateInput(policy(), 'Hello', { model: classifier(new Error('unavailable')) }), generate);
+    } finally {
+      console.error = original;
+    }
+  });
+
+  test('skips the classifier when asked to', async () => {
+    assert.deepEqual(await evaluateInput(policy(), 'Tell me a joke', { model: unusedModel, classify: false }), { action: 'generate' });
+    assert.equal(unusedModel.doGenerateCalls.length, 0);
+  });
+});
+
+// -------- Output filter --------
+// Streams `deltas` as one text part through the filter and returns the text that comes out.
+async function filterText(filter: Policy['forbidden']['filter'], deltas: string[]) {
+  const chunks: UIMessageChunk[] = [
+    { type: 'text-start', id: 't' },
+    ...deltas.map((delta): UIMessageChunk => ({ type: 'text-delta', id: 't', delta })),
+    { type: 'text-end', id: 't' },
+  ];
+  const input = new ReadableStream<UIMessageChunk>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(chunk));
+      controller.close();
+    },
+  });
+
+  let text = '';
+  const reader = input.pipeThrough(createOutputFilter(policy(filter))).getReader();
+  for (let next = await reader.read(); !next.done; next = await reader.read()) {
+    if (next.value.type === 'text-delta') text += next.value.delta;
+  }
+  return text;
+}
+
+describe('createOutputFilter', () => {
+  test('redacts terms split across deltas', async () => {
+    const text = await filterText('redact', ['We can help with retire', 'ment  plan', 'ning and your pen', 'sion too.']);
+    assert.equal(text, `We can help with ${REDACTED} and your ${REDACTED} too.`);
+  });
+
+  test('passes clean text through unchanged', async () => {
+    const deltas = ['Our team builds ', 'websites and ', 'apps.'];
+    assert.equal(await filterText('redact', deltas), deltas.join(''));
+    assert.equal(await filterText('block', deltas), deltas.join(''));
+  });
+
+  test('replaces the whole answer in block mode', async () => {
+    assert.equal(await filterText('block', ['Start retirement ', 'planning early.']), 'We do not advise on retirement planning.');
+  });
+});
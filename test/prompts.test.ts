@@ -0,0 +1,49 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { tenants } from '../config/tenants';
+import { systemPrompts } from '../prompts/system/versions';
+import { buildSystemPrompt, checkPromptTemplates, selectPromptVersion } from '../lib/prompts';
+import { renderTemplate } from '../lib/prompt-template';
+import { getDefaultTenant } from '../lib/tenants';
+
+const tenant = getDefaultTenant();
+
+describe('system prompts', () => {
+  test('every version renders for every tenant', () => {
+    assert.deepEqual(checkPromptTemplates(tenants), []);
+  });
+
+  test('leave no variables unrendered', () => {
+    for (const { version } of systemPrompts) {
+      assert.doesNotMatch(buildSystemPrompt(tenant, 'Source [1]: example', version), /\{\{/, version);
+    }
+  });
+
+  test('a template with an unknown variable is reported', () => {
+    assert.throws(() => renderTemplate('Hello {{siteNmae}}', { siteName: 'Example' }), /"siteNmae" is not defined/);
+    const broken = { ...tenant, promptVersion: 'v0' };
+    assert.deepEqual(checkPromptTemplates([broken]), [`${tenant.id}: unknown prompt version "v0"`]);
+  });
+});
+
+describe('selectPromptVersion', () => {
+  const split = { ...tenant, promptVersion: { v1: 1, v2: 1 } };
+  const sessions = Array.from({ length: 200 }, (_, i) => `session-${i}`);
+
+  test('uses a pinned version', () => {
+    assert.equal(selectPromptVersion({ ...tenant, promptVersion: 'v1' }, 'session-1'), 'v1');
+  });
+
+  test('keeps a session on the same version', () => {
+    for (const sessionId of sessions.slice(0, 20)) {
+      const version = selectPromptVersion(split, sessionId);
+      for (let i = 0; i < 5; i++) assert.equal(selectPromptVersion(split, sessionId), version);
+    }
+  });
+
+  test('splits sessions by weight', () => {
+    const v1 = sessions.filter(sessionId => selectPromptVersion(split, sessionId) === 'v1').length;
+    assert.ok(v1 > 60 && v1 < 140, `${v1} of 200 sessions got v1`);
+    assert.ok(sessions.every(sessionId => selectPromptVersion({ ...tenant, promptVersion: { v1: 0, v2: 3 } }, sessionId) === 'v2'));
+  });
+});
@@ -0,0 +1,6 @@
+// Imported first by tests that load lib/supabase.ts, which requires these at import time. Tests use the
+// in-memory stores and never contact Supabase.
+process.env.SUPABASE_URL ??= 'http://localhost:54321';
+process.env.SUPABASE_KEY ??= 'offline';
+process.env.EMBEDDING_PROVIDER ??= 'local';
+process.env.CHAT_PROVIDER ??= 'local';
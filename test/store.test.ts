@@ -0,0 +1,37 @@
+import './setup';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createMemoryVectorStore, embeddingStatus } from '../lib/retrieval/store';
+
+// -------- Embedding models --------
+// Two pages with the same text and vector, embedded by different models.
+async function storeWithTwoModels() {
+  const store = createMemoryVectorStore();
+  const chunk = { chunkIndex: 0, text: 'Opening hours are nine to five', headingPath: [], embedding: [1, 0] };
+  await store.replacePage('t', { url: 'https://example.com/new', title: null, contentHash: '', embeddingModel: 'test:new' }, [chunk]);
+  await store.replacePage('t', { url: 'https://example.com/old', title: null, contentHash: '', embeddingModel: 'test:old' }, [chunk]);
+  return store;
+}
+
+describe('search across embedding models', () => {
+  test('vector matches only come from pages embedded with the query model', async () => {
+    const store = await storeWithTwoModels();
+    const matches = await store.matchChunks('t', 'test:new', [1, 0], 10);
+    assert.deepEqual(matches.map(m => m.url), ['https://example.com/new']);
+  });
+
+  test('keyword matches from other models have no similarity', async () => {
+    const store = await storeWithTwoModels();
+    const matches = await store.keywordSearch('t', 'test:new', 'opening hours', [1, 0], 10);
+    const similarity = Object.fromEntries(matches.map(m => [m.url, m.similarity]));
+    assert.deepEqual(similarity, { 'https://example.com/new': 1, 'https://example.com/old': 0 });
+    assert.ok(matches.every(m => m.exact));
+  });
+
+  test('a tenant with pages from another model needs re-embedding', async () => {
+    const store = await storeWithTwoModels();
+    const status = await embeddingStatus('t', store);
+    assert.equal(status.needsReembedding, true);
+    assert.ok(status.stored.includes('test:old'));
+  });
+});
@@ -0,0 +1,52 @@
+import './setup';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockLanguageModelV2 } from 'ai/test';
+import type { Policy } from '../lib/policy/rules';
+import { suggestFollowUps } from '../lib/rich-content/suggestions';
+
+const policy: Policy = {
+  siteName: 'Example',
+  refusal: 'I can only help with questions about Example.',
+  cannedAnswers: [],
+  forbidden: { topics: [], terms: ['pension'], reply: 'We do not advise on pensions.', filter: 'redact' },
+};
+
+// A model that suggests `questions` after `delayMs`, giving up when the call is aborted.
+function suggester(questions: string[], delayMs = 0) {
+  return new MockLanguageModelV2({
+    doGenerate: ({ abortSignal }) => new Promise((resolve, reject) => {
+      const timer = setTimeout(() => resolve({
+        content: [{ type: 'text', text: JSON.stringify({ questions }) }],
+        finishReason: 'stop',
+        usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+        warnings: [],
+      }), delayMs);
+      abortSignal?.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(abortSignal.reason);
+      });
+    }),
+  });
+}
+
+const suggest = (model: MockLanguageModelV2, timeoutMs = 1000) =>
+  suggestFollowUps(policy, 'What do you build?', 'We build mobile apps.', 'Mobile apps. Pricing starts at 5k.', { model, timeoutMs });
+
+describe('suggestFollowUps', () => {
+  test('drops duplicates and questions about forbidden terms', async () => {
+    const questions = await suggest(suggester(['How much  does it cost?', 'How much does it cost?', 'What about my pension?']));
+    assert.deepEqual(questions, ['How much does it cost?']);
+  });
+
+  test('gives up on a slow model', async () => {
+    const startedAt = Date.now();
+    assert.deepEqual(await suggest(suggester(['How much does it cost?'], 5000), 50), []);
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+
+  test('makes no suggestions without context', async () => {
+    const questions = await suggestFollowUps(policy, 'Hi', 'Hello!', '', { model: suggester(['How much does it cost?']) });
+    assert.deepEqual(questions, []);
+  });
+});